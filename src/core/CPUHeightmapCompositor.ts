@@ -0,0 +1,367 @@
+import * as THREE from 'three';
+import type { BrushData, HeightmapCompositor } from './HeightmapCompositor';
+import { DirtyRegionRect, TerrainCanvasAdapter } from './types';
+import { HeightfieldData } from './Heightfield';
+import { DOMCanvasAdapter } from './DOMCanvasAdapter';
+
+/**
+ * Configuration for CPUHeightmapCompositor.
+ */
+export interface CPUHeightmapCompositorConfig {
+  /** Output resolution (default: 1024) */
+  resolution?: number;
+  /** World size in units (default: 2048) */
+  worldSize?: number;
+  /** Base height (black level, 0-255 scale, default: 0) */
+  baseHeight?: number;
+  /** Reads brush images that are not data textures (default: DOM adapter when available) */
+  canvasAdapter?: TerrainCanvasAdapter | null;
+}
+
+/**
+ * Resolved configuration with defaults applied.
+ */
+interface ResolvedCPUCompositorConfig {
+  resolution: number;
+  worldSize: number;
+  baseHeight: number;
+  canvasAdapter: TerrainCanvasAdapter | null;
+}
+
+/**
+ * Decoded brush texture: R (height profile) and A (coverage) planes, 0-1.
+ */
+interface AlphaSampler {
+  width: number;
+  height: number;
+  red: Float32Array;
+  alpha: Float32Array;
+  flipY: boolean;
+  nearest: boolean;
+  /** Texture version the planes were decoded from (-1 = registered via setAlphaData) */
+  version: number;
+}
+
+/**
+ * CPU reference for HeightmapCompositor: evaluates the same brush stack (transform,
+ * falloff, incline strength, height, blend mode, alpha texture) without a GPU, e.g. on
+ * a server or in unit tests.
+ *
+ * Output heights are normalized (0-1) and row-major in texture order: column 0 is the
+ * -X edge and row 0 the +Z edge (v = 0), the same layout `readBackHeightMap()` returns.
+ * Results match the WebGL backend within float tolerance (texel-edge coverage and
+ * mipmapped minification may differ slightly); the WebGPU backend stores half floats.
+ *
+ * Brush textures are read from data textures directly, from drawable images through the
+ * canvas adapter, or from data registered with `setAlphaData()`. Sampling is bilinear
+ * (nearest for NearestFilter textures) with clamp-to-edge wrapping.
+ *
+ * @example
+ * ```typescript
+ * const reference = CPUHeightmapCompositor.fromCompositor(compositor);
+ * const heights = reference.compose(compositor.getAllBrushes());
+ * ```
+ */
+export class CPUHeightmapCompositor {
+  private config: ResolvedCPUCompositorConfig;
+  private samplers: WeakMap<THREE.Texture, AlphaSampler> = new WeakMap();
+  private readonly sampleResult = { red: 0, alpha: 0 };
+
+  constructor(config: CPUHeightmapCompositorConfig = {}) {
+    this.config = {
+      resolution: config.resolution ?? 1024,
+      worldSize: config.worldSize ?? 2048,
+      baseHeight: config.baseHeight ?? 0,
+      canvasAdapter: config.canvasAdapter !== undefined
+        ? config.canvasAdapter
+        : (DOMCanvasAdapter.isSupported() ? new DOMCanvasAdapter() : null)
+    };
+  }
+
+  /**
+   * Create a CPU compositor with the resolution, world size and base height of a GPU compositor.
+   */
+  static fromCompositor(
+    compositor: HeightmapCompositor,
+    config: Pick<CPUHeightmapCompositorConfig, 'canvasAdapter'> = {}
+  ): CPUHeightmapCompositor {
+    const { resolution, worldSize, baseHeight } = compositor.getConfig();
+    return new CPUHeightmapCompositor({ ...config, resolution, worldSize, baseHeight });
+  }
+
+  /**
+   * Output resolution (heights per side).
+   */
+  get resolution(): number {
+    return this.config.resolution;
+  }
+
+  /**
+   * Set base height (adjusts black level).
+   * @param height - Base height value (0-255 scale)
+   */
+  setBaseHeight(height: number): void {
+    this.config.baseHeight = height;
+  }
+
+  /**
+   * Provide decoded pixels for a brush texture whose image cannot be read on the CPU.
+   * @param texture - The brush's `alphaTexture`
+   * @param data - Pixels in image row order (top row first), 1-4 interleaved channels
+   * @param width - Image width in pixels
+   * @param height - Image height in pixels
+   * @param halfFloat - Interpret a Uint16Array as half floats
+   */
+  setAlphaData(
+    texture: THREE.Texture,
+    data: HeightfieldData,
+    width: number,
+    height: number,
+    halfFloat = false
+  ): void {
+    this.samplers.set(texture, this._decode(texture, data, width, height, halfFloat, -1));
+  }
+
+  /**
+   * Evaluate a brush stack.
+   * @param brushes - Brushes in composition order (e.g. `compositor.getAllBrushes()`); hidden ones are skipped
+   * @param target - Array of `resolution * resolution` heights to write (allocated if omitted)
+   * @param region - Only recompute texels in this rectangle; others keep their values in `target`
+   * @returns The composed heights
+   */
+  compose(brushes: Iterable<BrushData>, target?: Float32Array, region?: DirtyRegionRect): Float32Array {
+    const { resolution, worldSize } = this.config;
+    const count = resolution * resolution;
+    const heights = target ?? new Float32Array(count);
+    if (heights.length < count) {
+      throw new Error(`CPUHeightmapCompositor: target needs ${count} values, got ${heights.length}`);
+    }
+
+    const minCol = Math.max(0, Math.floor(region?.x ?? 0));
+    const minRow = Math.max(0, Math.floor(region?.y ?? 0));
+    const maxCol = Math.min(resolution, region ? Math.ceil(region.x + region.width) : resolution);
+    const maxRow = Math.min(resolution, region ? Math.ceil(region.y + region.height) : resolution);
+    if (minCol >= maxCol || minRow >= maxRow) return heights;
+
+    const base = this.config.baseHeight / 255;
+    for (let row = minRow; row < maxRow; row++) {
+      heights.fill(base, row * resolution + minCol, row * resolution + maxCol);
+    }
+
+    const halfWorld = worldSize / 2;
+    const texelSize = worldSize / resolution;
+    for (const brush of brushes) {
+      if (!brush.visible || brush.scale.x === 0 || brush.scale.z === 0) continue;
+      const sampler = this._getSampler(brush.alphaTexture);
+
+      // Texel range covered by the brush quad's world bounds
+      const cos = Math.cos(brush.rotation.y);
+      const sin = Math.sin(brush.rotation.y);
+      const extentX = (Math.abs(brush.scale.x * cos) + Math.abs(brush.scale.z * sin)) / 2;
+      const extentZ = (Math.abs(brush.scale.x * sin) + Math.abs(brush.scale.z * cos)) / 2;
+      const colStart = Math.max(minCol, Math.floor((brush.position.x - extentX + halfWorld) / texelSize));
+      const colEnd = Math.min(maxCol, Math.ceil((brush.position.x + extentX + halfWorld) / texelSize));
+      // Row 0 is the +Z edge
+      const rowStart = Math.max(minRow, Math.floor((halfWorld - brush.position.z - extentZ) / texelSize));
+      const rowEnd = Math.min(maxRow, Math.ceil((halfWorld - brush.position.z + extentZ) / texelSize));
+
+      for (let row = rowStart; row < rowEnd; row++) {
+        const dz = halfWorld - (row + 0.5) * texelSize - brush.position.z;
+        for (let col = colStart; col < colEnd; col++) {
+          const dx = -halfWorld + (col + 0.5) * texelSize - brush.position.x;
+
+          // Inverse of the brush mesh transform (rotation about Y, then scale)
+          const localX = (dx * cos - dz * sin) / brush.scale.x;
+          const localZ = (dx * sin + dz * cos) / brush.scale.z;
+          if (localX < -0.5 || localX >= 0.5 || localZ <= -0.5 || localZ > 0.5) continue;
+
+          const index = row * resolution + col;
+          heights[index] = this._blend(brush, sampler, localX + 0.5, 0.5 - localZ, heights[index]);
+        }
+      }
+    }
+    return heights;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  /**
+   * Evaluate the brush shader at a stamp UV and blend it over the current height,
+   * mirroring HeightmapCompositor's fragment output and blend equations.
+   */
+  private _blend(brush: BrushData, sampler: AlphaSampler | null, u: number, v: number, current: number): number {
+    let red = 1;
+    let alpha = 1;
+    if (sampler) {
+      const texel = this._sample(sampler, u, v);
+      red = texel.red;
+      alpha = texel.alpha;
+    }
+
+    // Falloff from the stamp edges
+    const dist = Math.hypot(u * 2 - 1, v * 2 - 1);
+    const falloffMask = 1 - smoothstep(1 - brush.falloff, 1, dist);
+    const coverage = alpha * falloffMask;
+
+    const maxHeight = brush.height / 255;
+    const strength = Math.pow(red * falloffMask, brush.inclineStrength);
+    const value = strength * maxHeight;
+
+    switch (brush.blendMode) {
+      case 'subtract':
+        return current - value;
+      case 'max':
+        return Math.max(current, value);
+      case 'min':
+        return Math.min(current, 1 + (value - 1) * coverage);
+      case 'replace':
+        return value * coverage + current * (1 - coverage);
+      case 'multiply':
+        return current * (1 + (maxHeight - 1) * strength);
+      case 'lerp-to-target':
+        return maxHeight * strength + current * (1 - strength);
+      case 'add':
+      default:
+        return current + value;
+    }
+  }
+
+  /**
+   * Sample a decoded texture at a UV with clamp-to-edge wrapping.
+   */
+  private _sample(sampler: AlphaSampler, u: number, v: number): { red: number; alpha: number } {
+    const { width, height, red, alpha } = sampler;
+    const result = this.sampleResult;
+
+    // Image rows run top-down; flipped textures put v = 0 at the bottom row
+    const x = u * width - 0.5;
+    const y = (sampler.flipY ? 1 - v : v) * height - 0.5;
+
+    if (sampler.nearest) {
+      const index = clampIndex(Math.round(y), height) * width + clampIndex(Math.round(x), width);
+      result.red = red[index];
+      result.alpha = alpha[index];
+      return result;
+    }
+
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+    const c0 = clampIndex(x0, width);
+    const c1 = clampIndex(x0 + 1, width);
+    const r0 = clampIndex(y0, height) * width;
+    const r1 = clampIndex(y0 + 1, height) * width;
+
+    result.red = bilinear(red[r0 + c0], red[r0 + c1], red[r1 + c0], red[r1 + c1], fx, fy);
+    result.alpha = bilinear(alpha[r0 + c0], alpha[r0 + c1], alpha[r1 + c0], alpha[r1 + c1], fx, fy);
+    return result;
+  }
+
+  /**
+   * Get (or decode) the sampler for a brush texture; null samples as opaque white.
+   */
+  private _getSampler(texture: THREE.Texture | null | undefined): AlphaSampler | null {
+    if (!texture) return null;
+
+    const cached = this.samplers.get(texture);
+    if (cached && (cached.version === -1 || cached.version === texture.version)) return cached;
+
+    const image = texture.image as { data?: unknown; width?: number; height?: number } | null;
+    let sampler: AlphaSampler | null = null;
+    if (image && isTextureData(image.data) && image.width && image.height) {
+      sampler = this._decode(
+        texture, image.data, image.width, image.height,
+        texture.type === THREE.HalfFloatType, texture.version
+      );
+    } else if (this.config.canvasAdapter?.isDrawable(image)) {
+      const width = image.width || 1;
+      const height = image.height || 1;
+      const canvas = this.config.canvasAdapter.createCanvas(width, height);
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(image, 0, 0);
+      sampler = this._decode(
+        texture, ctx.getImageData(0, 0, width, height).data, width, height, false, texture.version
+      );
+    }
+
+    if (!sampler) {
+      throw new Error(
+        'CPUHeightmapCompositor: brush texture pixels are not readable; ' +
+        'use a DataTexture, a canvas adapter or setAlphaData()'
+      );
+    }
+    this.samplers.set(texture, sampler);
+    return sampler;
+  }
+
+  /**
+   * Split interleaved pixels into normalized R and A planes.
+   */
+  private _decode(
+    texture: THREE.Texture,
+    data: HeightfieldData,
+    width: number,
+    height: number,
+    halfFloat: boolean,
+    version: number
+  ): AlphaSampler {
+    const count = width * height;
+    if (data.length < count) {
+      throw new Error(`CPUHeightmapCompositor: expected at least ${count} values, got ${data.length}`);
+    }
+
+    const channels = Math.min(4, Math.max(1, Math.floor(data.length / count)));
+    const normalize = data instanceof Float32Array
+      ? (value: number) => value
+      : data instanceof Uint16Array
+        ? (halfFloat ? THREE.DataUtils.fromHalfFloat : (value: number) => value / 65535)
+        : (value: number) => value / 255;
+
+    const red = new Float32Array(count);
+    const alpha = new Float32Array(count);
+    for (let i = 0, j = 0; i < count; i++, j += channels) {
+      red[i] = normalize(data[j]);
+      // Textures without an alpha channel sample as opaque
+      alpha[i] = channels === 4 ? normalize(data[j + 3]) : 1;
+    }
+
+    return {
+      width,
+      height,
+      red,
+      alpha,
+      flipY: texture.flipY,
+      nearest: texture.magFilter === THREE.NearestFilter,
+      version
+    };
+  }
+}
+
+function isTextureData(data: unknown): data is HeightfieldData {
+  return data instanceof Float32Array
+    || data instanceof Uint16Array
+    || data instanceof Uint8Array
+    || data instanceof Uint8ClampedArray;
+}
+
+/**
+ * GLSL smoothstep; equal edges (falloff 0) give a hard step.
+ */
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  if (edge1 <= edge0) return x < edge0 ? 0 : 1;
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+function clampIndex(index: number, size: number): number {
+  return index < 0 ? 0 : (index >= size ? size - 1 : index);
+}
+
+function bilinear(a: number, b: number, c: number, d: number, fx: number, fy: number): number {
+  const top = a + (b - a) * fx;
+  const bottom = c + (d - c) * fx;
+  return top + (bottom - top) * fy;
+}
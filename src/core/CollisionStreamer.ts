@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import type { TerrainLOD } from './TerrainLOD';
+
+/**
+ * Streams highest-detail collision cells around one or more focus points.
+ *
+ * Cells are the finest quadtree grid (`2^(levels-1)` per side). A cell enters when
+ * any focus point comes within `collisionStreamRadius` of it and exits once every
+ * focus point is beyond that radius times `lodHysteresis`. Enter/exit go through the
+ * terrain's collision callback; cells invalidated by height edits are re-emitted
+ * (exit, then enter with fresh data) on the next update.
+ */
+export class CollisionStreamer {
+  private active: Map<string, { x: number; z: number }> = new Map();
+  private stale: Set<string> = new Set();
+  private readonly desired: Map<string, { x: number; z: number }> = new Map();
+
+  constructor(private terrain: TerrainLOD) {}
+
+  /**
+   * Number of cells currently streamed in.
+   */
+  get size(): number {
+    return this.active.size;
+  }
+
+  /**
+   * Whether a cell is currently streamed in.
+   */
+  has(x: number, z: number): boolean {
+    return this.active.has(`${x}_${z}`);
+  }
+
+  /**
+   * Bring the streamed set in line with the focus points.
+   */
+  update(focusPoints: readonly THREE.Vector3Like[]): void {
+    const config = this.terrain.getConfig();
+    const divisions = 1 << Math.max(0, config.levels - 1);
+    const cellSize = config.worldSize / divisions;
+    const halfWorld = config.worldSize / 2;
+    const enterRadius = config.collisionStreamRadius;
+    const exitRadius = enterRadius * Math.max(1, config.lodHysteresis);
+
+    // Cells wanted this frame: new ones within the enter radius, active ones within the exit radius
+    this.desired.clear();
+    for (const point of focusPoints) {
+      const minX = Math.max(0, Math.floor((point.x - exitRadius + halfWorld) / cellSize));
+      const maxX = Math.min(divisions - 1, Math.floor((point.x + exitRadius + halfWorld) / cellSize));
+      const minZ = Math.max(0, Math.floor((point.z - exitRadius + halfWorld) / cellSize));
+      const maxZ = Math.min(divisions - 1, Math.floor((point.z + exitRadius + halfWorld) / cellSize));
+
+      for (let z = minZ; z <= maxZ; z++) {
+        for (let x = minX; x <= maxX; x++) {
+          const key = `${x}_${z}`;
+          if (this.desired.has(key)) continue;
+
+          const cellMinX = x * cellSize - halfWorld;
+          const cellMinZ = z * cellSize - halfWorld;
+          const dx = Math.max(cellMinX - point.x, 0, point.x - (cellMinX + cellSize));
+          const dz = Math.max(cellMinZ - point.z, 0, point.z - (cellMinZ + cellSize));
+          const distance = Math.sqrt(dx * dx + dz * dz);
+
+          if (distance <= enterRadius || (distance <= exitRadius && this.active.has(key))) {
+            this.desired.set(key, { x, z });
+          }
+        }
+      }
+    }
+
+    for (const [key, index] of this.active) {
+      if (!this.desired.has(key)) {
+        this.active.delete(key);
+        this.stale.delete(key);
+        this.terrain._emitChunkExitLOD0(index.x, index.z);
+      }
+    }
+
+    for (const [key, index] of this.desired) {
+      const isActive = this.active.has(key);
+      if (isActive && !this.stale.has(key)) continue;
+
+      if (isActive) {
+        this.active.delete(key);
+        this.terrain._emitChunkExitLOD0(index.x, index.z);
+      }
+      this.stale.delete(key);
+
+      // Cells without height data yet are retried on the next update
+      if (this.terrain._emitChunkEnterLOD0(index.x, index.z)) {
+        this.active.set(key, index);
+      }
+    }
+  }
+
+  /**
+   * Mark streamed cells for re-emission after their heights changed.
+   * @param keys - Collision chunk keys (`x_z`); omit to mark every streamed cell
+   */
+  invalidate(keys?: Iterable<string>): void {
+    if (!keys) {
+      for (const key of this.active.keys()) this.stale.add(key);
+      return;
+    }
+    for (const key of keys) {
+      if (this.active.has(key)) this.stale.add(key);
+    }
+  }
+
+  /**
+   * Exit every streamed cell.
+   */
+  clear(): void {
+    for (const index of this.active.values()) {
+      this.terrain._emitChunkExitLOD0(index.x, index.z);
+    }
+    this.active.clear();
+    this.stale.clear();
+  }
+}
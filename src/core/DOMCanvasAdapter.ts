@@ -0,0 +1,35 @@
+import * as THREE from 'three';
+import { TerrainCanvasAdapter } from './types';
+
+/**
+ * Default canvas adapter for browsers: `document` canvases and THREE.TextureLoader.
+ */
+export class DOMCanvasAdapter implements TerrainCanvasAdapter {
+  private loader: THREE.TextureLoader | null = null;
+
+  /**
+   * Whether the DOM is available in the current environment.
+   */
+  static isSupported(): boolean {
+    return typeof document !== 'undefined' && typeof document.createElement === 'function';
+  }
+
+  createCanvas(width: number, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  loadTexture(url: string): Promise<THREE.Texture> {
+    this.loader ??= new THREE.TextureLoader();
+    return this.loader.loadAsync(url);
+  }
+
+  isDrawable(image: unknown): image is CanvasImageSource {
+    return (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement)
+      || (typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement)
+      || (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap)
+      || (typeof OffscreenCanvas !== 'undefined' && image instanceof OffscreenCanvas);
+  }
+}
@@ -0,0 +1,156 @@
+import { DirtyRegionRect } from './types';
+import type { Heightfield } from './Heightfield';
+
+/**
+ * Texels added around each cell when scanning heights.
+ * Covers bilinear filtering and displacement smoothing at chunk borders.
+ */
+const BOUNDS_TEXEL_MARGIN = 2;
+
+/**
+ * Min/max height mip pyramid aligned with the terrain quadtree.
+ *
+ * Level `L` holds `2^L x 2^L` cells, matching the quadtree nodes at depth `L`.
+ * The finest level is scanned from the CPU heightfield; coarser levels are
+ * reduced from their four children. Values are normalized (0-1) so changing
+ * the terrain max height does not require a rebuild.
+ */
+export class HeightPyramid {
+  private minLevels: Float32Array[] = [];
+  private maxLevels: Float32Array[] = [];
+  private ready: boolean = false;
+
+  constructor(private levels: number) {
+    for (let level = 0; level < levels; level++) {
+      const cells = 1 << level;
+      this.minLevels.push(new Float32Array(cells * cells));
+      this.maxLevels.push(new Float32Array(cells * cells));
+    }
+  }
+
+  /**
+   * Whether the pyramid holds data for the current heightmap.
+   */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Rebuild the whole pyramid from the heightfield.
+   */
+  build(heightfield: Heightfield): void {
+    const finest = this.levels - 1;
+    const cells = 1 << finest;
+    this.updateFinestCells(heightfield, 0, 0, cells - 1, cells - 1);
+    this.reduceLevels(0, 0, cells - 1, cells - 1);
+    this.ready = true;
+  }
+
+  /**
+   * Recompute only the cells overlapping a heightmap pixel region.
+   * Falls back to a full build if the pyramid is not ready yet.
+   */
+  updateRegion(heightfield: Heightfield, rect: DirtyRegionRect): void {
+    if (!this.ready) {
+      this.build(heightfield);
+      return;
+    }
+
+    const finest = this.levels - 1;
+    const cells = 1 << finest;
+    const texelsPerCellX = heightfield.width / cells;
+    const texelsPerCellY = heightfield.height / cells;
+    const clampCell = (value: number) => Math.max(0, Math.min(cells - 1, value));
+
+    const startX = clampCell(Math.floor((rect.x - BOUNDS_TEXEL_MARGIN) / texelsPerCellX));
+    const endX = clampCell(Math.floor((rect.x + rect.width + BOUNDS_TEXEL_MARGIN) / texelsPerCellX));
+    const startZ = clampCell(Math.floor((rect.y - BOUNDS_TEXEL_MARGIN) / texelsPerCellY));
+    const endZ = clampCell(Math.floor((rect.y + rect.height + BOUNDS_TEXEL_MARGIN) / texelsPerCellY));
+
+    this.updateFinestCells(heightfield, startX, startZ, endX, endZ);
+    this.reduceLevels(startX, startZ, endX, endZ);
+  }
+
+  /**
+   * Get the normalized minimum height of a cell.
+   */
+  getMin(level: number, x: number, z: number): number {
+    const cells = 1 << level;
+    return this.minLevels[level][z * cells + x];
+  }
+
+  /**
+   * Get the normalized maximum height of a cell.
+   */
+  getMax(level: number, x: number, z: number): number {
+    const cells = 1 << level;
+    return this.maxLevels[level][z * cells + x];
+  }
+
+  /**
+   * Drop pyramid data (e.g. when the CPU heightmap is discarded).
+   */
+  clear(): void {
+    this.ready = false;
+  }
+
+  private updateFinestCells(heightfield: Heightfield, startX: number, startZ: number, endX: number, endZ: number): void {
+    const finest = this.levels - 1;
+    const cells = 1 << finest;
+    const { width, height, data } = heightfield;
+    const texelsPerCellX = width / cells;
+    const texelsPerCellY = height / cells;
+    const minLevel = this.minLevels[finest];
+    const maxLevel = this.maxLevels[finest];
+
+    for (let cz = startZ; cz <= endZ; cz++) {
+      const y0 = Math.max(0, Math.floor(cz * texelsPerCellY) - BOUNDS_TEXEL_MARGIN);
+      const y1 = Math.min(height - 1, Math.ceil((cz + 1) * texelsPerCellY) + BOUNDS_TEXEL_MARGIN);
+
+      for (let cx = startX; cx <= endX; cx++) {
+        const x0 = Math.max(0, Math.floor(cx * texelsPerCellX) - BOUNDS_TEXEL_MARGIN);
+        const x1 = Math.min(width - 1, Math.ceil((cx + 1) * texelsPerCellX) + BOUNDS_TEXEL_MARGIN);
+
+        let min = Infinity;
+        let max = -Infinity;
+        for (let y = y0; y <= y1; y++) {
+          let idx = y * width + x0;
+          for (let x = x0; x <= x1; x++, idx++) {
+            const value = data[idx];
+            if (value < min) min = value;
+            if (value > max) max = value;
+          }
+        }
+
+        const cellIndex = cz * cells + cx;
+        minLevel[cellIndex] = min;
+        maxLevel[cellIndex] = max;
+      }
+    }
+  }
+
+  private reduceLevels(startX: number, startZ: number, endX: number, endZ: number): void {
+    for (let level = this.levels - 2; level >= 0; level--) {
+      startX >>= 1;
+      startZ >>= 1;
+      endX >>= 1;
+      endZ >>= 1;
+
+      const cells = 1 << level;
+      const childCells = cells << 1;
+      const minLevel = this.minLevels[level];
+      const maxLevel = this.maxLevels[level];
+      const childMin = this.minLevels[level + 1];
+      const childMax = this.maxLevels[level + 1];
+
+      for (let z = startZ; z <= endZ; z++) {
+        for (let x = startX; x <= endX; x++) {
+          const c0 = (z * 2) * childCells + x * 2;
+          const c1 = c0 + childCells;
+          minLevel[z * cells + x] = Math.min(childMin[c0], childMin[c0 + 1], childMin[c1], childMin[c1 + 1]);
+          maxLevel[z * cells + x] = Math.max(childMax[c0], childMax[c0 + 1], childMax[c1], childMax[c1 + 1]);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import * as THREE from 'three';
+import { DirtyRegionRect, TerrainHeightFilter } from './types';
+
+/**
+ * Typed arrays accepted as raw height input.
+ * - `Float32Array`: heights 0-1
+ * - `Uint16Array`: heights 0-65535 (or half floats, see `Heightfield.setData`)
+ * - `Uint8Array` / `Uint8ClampedArray`: heights 0-255
+ *
+ * Arrays may hold one value per sample or several interleaved channels
+ * (e.g. RGBA image bytes); only the first channel is used.
+ */
+export type HeightfieldData = Float32Array | Uint16Array | Uint8Array | Uint8ClampedArray;
+
+/**
+ * CPU-side height store with full float precision.
+ *
+ * Samples are normalized (0-1) and stored row-major, one per heightmap texel,
+ * with rows following the heightmap image rows. Everything that reads heights
+ * on the CPU (height queries, collision data, the height pyramid) goes through
+ * this store, so 16-bit and float sources keep their precision.
+ */
+export class Heightfield {
+  public readonly data: Float32Array;
+
+  constructor(
+    public readonly width: number,
+    public readonly height: number,
+    data?: Float32Array
+  ) {
+    this.data = data ?? new Float32Array(width * height);
+  }
+
+  /**
+   * Create a heightfield from the R channel of image data.
+   */
+  static fromImageData(imageData: ImageData): Heightfield {
+    const heightfield = new Heightfield(imageData.width, imageData.height);
+    heightfield.writeImageData(imageData, 0, 0);
+    return heightfield;
+  }
+
+  /**
+   * Replace all samples from a typed array of the same dimensions.
+   * @param source - Height values, optionally with interleaved channels
+   * @param halfFloat - Interpret a Uint16Array as half floats (e.g. HalfFloatType textures)
+   */
+  setData(source: HeightfieldData, halfFloat = false): void {
+    const count = this.width * this.height;
+    const channels = Math.max(1, Math.floor(source.length / count));
+    if (source.length < count) {
+      throw new Error(`Heightfield: expected at least ${count} values, got ${source.length}`);
+    }
+
+    const target = this.data;
+    if (source instanceof Float32Array) {
+      for (let i = 0, j = 0; i < count; i++, j += channels) target[i] = source[j];
+    } else if (source instanceof Uint16Array) {
+      if (halfFloat) {
+        for (let i = 0, j = 0; i < count; i++, j += channels) target[i] = THREE.DataUtils.fromHalfFloat(source[j]);
+      } else {
+        for (let i = 0, j = 0; i < count; i++, j += channels) target[i] = source[j] / 65535;
+      }
+    } else {
+      for (let i = 0, j = 0; i < count; i++, j += channels) target[i] = source[j] / 255;
+    }
+  }
+
+  /**
+   * Copy the R channel of image data into the heightfield at a texel offset.
+   */
+  writeImageData(imageData: ImageData, offsetX: number, offsetY: number): void {
+    const { width, height, data } = imageData;
+    for (let row = 0; row < height; row++) {
+      const y = offsetY + row;
+      if (y < 0 || y >= this.height) continue;
+
+      let src = row * width * 4;
+      let dst = y * this.width + offsetX;
+      for (let col = 0; col < width; col++, src += 4, dst++) {
+        const x = offsetX + col;
+        if (x >= 0 && x < this.width) this.data[dst] = data[src] / 255;
+      }
+    }
+  }
+
+  /**
+   * Copy a region from a same-sized source array.
+   * @param source - Full-size height values (see `HeightfieldData`)
+   * @param rect - Texel region to copy
+   */
+  writeRegion(source: HeightfieldData, rect: DirtyRegionRect): void {
+    const count = this.width * this.height;
+    const channels = Math.max(1, Math.floor(source.length / count));
+    const scale = source instanceof Float32Array ? 1 : source instanceof Uint16Array ? 1 / 65535 : 1 / 255;
+
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) {
+        const index = y * this.width + x;
+        this.data[index] = source[index * channels] * scale;
+      }
+    }
+  }
+
+  /**
+   * Sample the normalized height at a texture coordinate.
+   * Texel `i` is centred at `(i + 0.5) / width`, as on the GPU; coordinates clamp to the edges.
+   * @param u - Horizontal texture coordinate (0-1, along image columns)
+   * @param v - Vertical texture coordinate (0-1, along image rows)
+   * @param filter - Reconstruction filter
+   */
+  sample(u: number, v: number, filter: TerrainHeightFilter = 'bilinear'): number {
+    const fx = u * this.width - 0.5;
+    const fy = v * this.height - 0.5;
+
+    if (filter === 'nearest') {
+      return this.getTexel(Math.round(fx), Math.round(fy));
+    }
+
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const tx = fx - x0;
+    const ty = fy - y0;
+
+    if (filter === 'bilinear') {
+      const h00 = this.getTexel(x0, y0);
+      const h10 = this.getTexel(x0 + 1, y0);
+      const h01 = this.getTexel(x0, y0 + 1);
+      const h11 = this.getTexel(x0 + 1, y0 + 1);
+      const top = h00 + (h10 - h00) * tx;
+      const bottom = h01 + (h11 - h01) * tx;
+      return top + (bottom - top) * ty;
+    }
+
+    // Catmull-Rom over the 4x4 neighborhood
+    let result = 0;
+    for (let j = -1; j <= 2; j++) {
+      const row = Heightfield.catmullRom(
+        this.getTexel(x0 - 1, y0 + j),
+        this.getTexel(x0, y0 + j),
+        this.getTexel(x0 + 1, y0 + j),
+        this.getTexel(x0 + 2, y0 + j),
+        tx
+      );
+      result += row * Heightfield.catmullRomWeight(j, ty);
+    }
+    return result;
+  }
+
+  /**
+   * Get the normalized height of a texel, clamping coordinates to the edges.
+   */
+  getTexel(x: number, y: number): number {
+    const cx = x < 0 ? 0 : x >= this.width ? this.width - 1 : x;
+    const cy = y < 0 ? 0 : y >= this.height ? this.height - 1 : y;
+    return this.data[cy * this.width + cx];
+  }
+
+  private static catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return 0.5 * (
+      2 * p1
+      + (p2 - p0) * t
+      + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2
+      + (3 * p1 - p0 - 3 * p2 + p3) * t3
+    );
+  }
+
+  /**
+   * Catmull-Rom weight of the sample at offset `j` (-1..2) for fraction `t`.
+   */
+  private static catmullRomWeight(j: number, t: number): number {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    switch (j) {
+      case -1: return 0.5 * (-t3 + 2 * t2 - t);
+      case 0: return 0.5 * (3 * t3 - 5 * t2 + 2);
+      case 1: return 0.5 * (-3 * t3 + 4 * t2 + t);
+      default: return 0.5 * (t3 - t2);
+    }
+  }
+}
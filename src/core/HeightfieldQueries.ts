@@ -0,0 +1,621 @@
+import * as THREE from 'three';
+import { TerrainShapeContact } from './types';
+import type { TerrainLOD } from './TerrainLOD';
+
+/**
+ * Conservative-advancement steps before a sweep that never touches the surface gives up.
+ */
+const MAX_SWEEP_ITERATIONS = 64;
+
+/**
+ * Result of a heightfield ray query, in terrain-local space.
+ */
+export interface HeightfieldHit {
+  /** Distance along the (normalized) ray */
+  distance: number;
+  /** Hit point */
+  point: THREE.Vector3;
+  /** Upward-facing normal of the hit triangle */
+  normal: THREE.Vector3;
+  /** Heightfield texel indices (row * width + column) of the hit triangle's vertices */
+  a: number;
+  b: number;
+  c: number;
+}
+
+/**
+ * Geometric queries against the CPU heightfield.
+ *
+ * The surface is the triangle mesh through the texel centres (two triangles per
+ * texel quad, split like THREE.PlaneGeometry), clamped flat over the outer half texel.
+ * Queries descend the min/max height pyramid front to back and only march texels
+ * in the finest cells the query volume actually reaches.
+ *
+ * Spheres and capsules are handled as a core segment plus radius (a sphere is a
+ * zero-length capsule); sweeps use conservative advancement on the segment distance.
+ */
+export class HeightfieldQueries {
+  private bestDistance: number = Infinity;
+  private hitFound: boolean = false;
+  private activeHit: HeightfieldHit | null = null;
+  private boxEnter: number = 0;
+  private boxExit: number = 0;
+  private readonly ray: THREE.Ray = new THREE.Ray();
+  private readonly vA: THREE.Vector3 = new THREE.Vector3();
+  private readonly vB: THREE.Vector3 = new THREE.Vector3();
+  private readonly vC: THREE.Vector3 = new THREE.Vector3();
+  private readonly vD: THREE.Vector3 = new THREE.Vector3();
+  private readonly edge1: THREE.Vector3 = new THREE.Vector3();
+  private readonly edge2: THREE.Vector3 = new THREE.Vector3();
+  private readonly triangleHit: THREE.Vector3 = new THREE.Vector3();
+
+  // Segment distance state
+  private closestDistance: number = Infinity;
+  private closestFound: boolean = false;
+  private segmentLength: number = 0;
+  private readonly segment: THREE.Line3 = new THREE.Line3();
+  private readonly segmentRay: THREE.Ray = new THREE.Ray();
+  private readonly segmentMin: THREE.Vector3 = new THREE.Vector3();
+  private readonly segmentMax: THREE.Vector3 = new THREE.Vector3();
+  private readonly edgeLine: THREE.Line3 = new THREE.Line3();
+  private readonly triangle: THREE.Triangle = new THREE.Triangle();
+  private readonly candidateOnSegment: THREE.Vector3 = new THREE.Vector3();
+  private readonly candidateOnSurface: THREE.Vector3 = new THREE.Vector3();
+  private readonly closestOnSegment: THREE.Vector3 = new THREE.Vector3();
+  private readonly closestOnSurface: THREE.Vector3 = new THREE.Vector3();
+  private readonly closestNormal: THREE.Vector3 = new THREE.Vector3();
+  private readonly surfaceNormal: THREE.Vector3 = new THREE.Vector3();
+  private readonly sweepStart: THREE.Vector3 = new THREE.Vector3();
+  private readonly sweepEnd: THREE.Vector3 = new THREE.Vector3();
+  private readonly sweepDirection: THREE.Vector3 = new THREE.Vector3();
+  private readonly segmentHit: HeightfieldHit = {
+    distance: 0,
+    point: new THREE.Vector3(),
+    normal: new THREE.Vector3(),
+    a: 0,
+    b: 0,
+    c: 0
+  };
+
+  constructor(private terrain: TerrainLOD) {}
+
+  /**
+   * Find the first intersection of a ray with the heightfield.
+   * @param ray - Ray in terrain-local space; the direction must be normalized
+   * @param maxDistance - Ignore hits farther than this
+   * @param hit - Receives the closest hit
+   * @returns Whether the ray hits the surface within `maxDistance`
+   */
+  raycast(ray: THREE.Ray, maxDistance: number, hit: HeightfieldHit): boolean {
+    if (!this.terrain.getHeightfield()) return false;
+
+    this.ray.copy(ray);
+    this.bestDistance = maxDistance;
+    this.hitFound = false;
+    this.activeHit = hit;
+    this.traverseCell(0, 0, 0);
+    this.activeHit = null;
+    return this.hitFound;
+  }
+
+  /**
+   * Test whether the straight line between two points clears the surface.
+   * Hits within a thousandth of a texel of `start` or `end` are ignored, so points lying
+   * on the surface can be tested directly.
+   */
+  isSegmentClear(start: THREE.Vector3Like, end: THREE.Vector3Like): boolean {
+    const heightfield = this.terrain.getHeightfield();
+    if (!heightfield) return true;
+
+    const ray = this.segmentRay;
+    ray.origin.copy(start);
+    ray.direction.copy(end).sub(ray.origin);
+    const length = ray.direction.length();
+    if (length < 1e-9) return true;
+    ray.direction.divideScalar(length);
+
+    const tolerance = 1e-3 * this.terrain.getConfig().worldSize / Math.max(heightfield.width, heightfield.height);
+    if (length <= 2 * tolerance) return true;
+    ray.origin.addScaledVector(ray.direction, tolerance);
+    return !this.raycast(ray, length - 2 * tolerance, this.segmentHit);
+  }
+
+  /**
+   * Test whether a capsule overlaps the surface or lies below it.
+   * Use `start === end` for a sphere.
+   * @param start - First end of the capsule's core segment
+   * @param end - Second end of the core segment
+   * @param radius - Capsule radius
+   * @param contact - Receives the deepest contact; `time` is set to 0
+   * @returns Whether the capsule touches the terrain
+   */
+  overlapCapsule(
+    start: THREE.Vector3Like,
+    end: THREE.Vector3Like,
+    radius: number,
+    contact: TerrainShapeContact
+  ): boolean {
+    if (!this.terrain.getHeightfield()) return false;
+
+    const startPoint = this.sweepStart.copy(start);
+    const endPoint = this.sweepEnd.copy(end);
+
+    // Core segment under the surface: push out along the surface normal
+    const startDepth = this.getDepthBelowSurface(startPoint, contact);
+    const endDepth = this.getDepthBelowSurface(endPoint, contact);
+    if (startDepth > 0 || endDepth > 0) {
+      // Keep the contact of the deeper end
+      if (startDepth >= endDepth) this.getDepthBelowSurface(startPoint, contact);
+      contact.depth = radius + Math.max(startDepth, endDepth);
+      contact.time = 0;
+      return true;
+    }
+
+    const distance = this.findClosest(startPoint, endPoint, radius);
+    if (distance > radius) return false;
+
+    this.writeContact(contact);
+    contact.depth = radius - distance;
+    contact.time = 0;
+    return true;
+  }
+
+  /**
+   * Move a capsule along a straight line and find the first contact with the surface.
+   * A capsule that starts overlapping reports a hit at time 0 with its overlap depth.
+   * @param start - First end of the capsule's core segment
+   * @param end - Second end of the core segment
+   * @param radius - Capsule radius
+   * @param motion - Displacement to sweep along
+   * @param contact - Receives the contact; `time` is the fraction of `motion` travelled
+   * @returns Whether the capsule hits the terrain within `motion`
+   */
+  sweepCapsule(
+    start: THREE.Vector3Like,
+    end: THREE.Vector3Like,
+    radius: number,
+    motion: THREE.Vector3Like,
+    contact: TerrainShapeContact
+  ): boolean {
+    const heightfield = this.terrain.getHeightfield();
+    if (!heightfield) return false;
+    if (this.overlapCapsule(start, end, radius, contact)) return true;
+
+    const direction = this.sweepDirection.copy(motion);
+    const length = direction.length();
+    if (length < 1e-12) return false;
+    direction.divideScalar(length);
+
+    // Separation below which the capsule counts as touching
+    const texelStep = this.terrain.getConfig().worldSize / Math.max(heightfield.width, heightfield.height);
+    const tolerance = Math.max(radius, texelStep) * 1e-3;
+
+    // Each step moves by the current gap, which can never pass through the surface
+    let travelled = 0;
+    for (let iteration = 0; iteration < MAX_SWEEP_ITERATIONS; iteration++) {
+      this.sweepStart.copy(start).addScaledVector(direction, travelled);
+      this.sweepEnd.copy(end).addScaledVector(direction, travelled);
+
+      const distance = this.findClosest(this.sweepStart, this.sweepEnd, radius + length - travelled + tolerance);
+      if (distance === Infinity) return false;
+
+      const gap = distance - radius;
+      if (gap <= tolerance) {
+        this.writeContact(contact);
+        contact.depth = 0;
+        contact.time = Math.min(1, travelled / length);
+        return true;
+      }
+      travelled += gap;
+      if (travelled > length) return false;
+    }
+
+    // Grazing sweeps that run out of steps never came within tolerance, so report no contact
+    return false;
+  }
+
+  /**
+   * Copy the closest points found by `findClosest()` into a contact.
+   */
+  private writeContact(contact: TerrainShapeContact): void {
+    contact.point.copy(this.closestOnSurface);
+    contact.normal.subVectors(this.closestOnSegment, this.closestOnSurface);
+    const length = contact.normal.length();
+    if (length > 1e-9) {
+      contact.normal.divideScalar(length);
+    } else {
+      contact.normal.copy(this.closestNormal);
+    }
+  }
+
+  /**
+   * Vertical depth of a point below the surface, or 0 if it is above it or off the terrain.
+   * Writes the surface point above it and the surface normal there to `contact`.
+   */
+  private getDepthBelowSurface(point: THREE.Vector3, contact: TerrainShapeContact): number {
+    const height = this.getSurfaceHeight(point.x, point.z);
+    if (Number.isNaN(height) || point.y >= height) return 0;
+    contact.point.set(point.x, height, point.z);
+    contact.normal.copy(this.surfaceNormal);
+    return height - point.y;
+  }
+
+  /**
+   * Height of the surface triangles at a position, or NaN outside the terrain.
+   * Writes the normal of the triangle under the position to `surfaceNormal`.
+   */
+  getSurfaceHeight(x: number, z: number): number {
+    const heightfield = this.terrain.getHeightfield();
+    const { worldSize } = this.terrain.getConfig();
+    const halfWorld = worldSize / 2;
+    if (!heightfield || Math.abs(x) > halfWorld || Math.abs(z) > halfWorld) return NaN;
+
+    const quadX = Math.min(heightfield.width - 1, Math.max(-1, Math.floor((x + halfWorld) / worldSize * heightfield.width - 0.5)));
+    const quadZ = Math.min(heightfield.height - 1, Math.max(-1, Math.floor((z + halfWorld) / worldSize * heightfield.height - 0.5)));
+    const a = this.getVertex(quadX, quadZ, this.vA);
+    const b = this.getVertex(quadX, quadZ + 1, this.vB);
+    const c = this.getVertex(quadX + 1, quadZ + 1, this.vC);
+    const d = this.getVertex(quadX + 1, quadZ, this.vD);
+
+    // Quad fractions; clamped border quads are flat, so any fraction works there
+    const fx = d.x > a.x ? (x - a.x) / (d.x - a.x) : 0;
+    const fz = b.z > a.z ? (z - a.z) / (b.z - a.z) : 0;
+
+    // Same split as THREE.PlaneGeometry: (a, b, d) below the diagonal, (b, c, d) above
+    if (fx + fz <= 1) {
+      this.triangle.set(a, b, d);
+    } else {
+      this.triangle.set(b, c, d);
+    }
+    this.triangle.getNormal(this.surfaceNormal);
+    if (this.surfaceNormal.y < 0) this.surfaceNormal.negate();
+
+    return fx + fz <= 1
+      ? a.y + (d.y - a.y) * fx + (b.y - a.y) * fz
+      : c.y + (b.y - c.y) * (1 - fx) + (d.y - c.y) * (1 - fz);
+  }
+
+  /**
+   * Find the closest point on the surface to a segment.
+   * Writes the closest points and triangle normal to `closestOnSegment`/`closestOnSurface`/`closestNormal`.
+   * @returns Distance (0 if the segment crosses the surface), or Infinity if nothing is within `maxDistance`
+   */
+  private findClosest(start: THREE.Vector3, end: THREE.Vector3, maxDistance: number): number {
+    this.segment.set(start, end);
+    this.segmentLength = start.distanceTo(end);
+    this.segmentRay.origin.copy(start);
+    if (this.segmentLength > 1e-9) {
+      this.segmentRay.direction.subVectors(end, start).divideScalar(this.segmentLength);
+    }
+    this.segmentMin.copy(start).min(end);
+    this.segmentMax.copy(start).max(end);
+
+    this.closestDistance = maxDistance;
+    this.closestFound = false;
+    this.traverseClosestCell(0, 0, 0);
+    return this.closestFound ? this.closestDistance : Infinity;
+  }
+
+  /**
+   * Visit a pyramid cell if its bounds are closer to the segment than the best distance so far.
+   */
+  private traverseClosestCell(level: number, cellX: number, cellZ: number): void {
+    if (this.closestDistance === 0) return;
+
+    const config = this.terrain.getConfig();
+    const halfWorld = config.worldSize / 2;
+    const cellSize = config.worldSize / (1 << level);
+    const minX = cellX * cellSize - halfWorld;
+    const minZ = cellZ * cellSize - halfWorld;
+    const range = this.terrain.getNodeHeightRange(level, cellX, cellZ);
+    const bound = this.getBoxDistance(minX, range.min, minZ, minX + cellSize, range.max, minZ + cellSize);
+    if (bound > this.closestDistance) return;
+
+    if (level >= config.levels - 1) {
+      if (this.scanCell(minX, minZ, cellSize)) this.closestFound = true;
+      return;
+    }
+
+    // Visit the children nearest the segment midpoint first
+    const firstX = (this.segmentMin.x + this.segmentMax.x) / 2 >= minX + cellSize / 2 ? 1 : 0;
+    const firstZ = (this.segmentMin.z + this.segmentMax.z) / 2 >= minZ + cellSize / 2 ? 1 : 0;
+    const childX = cellX * 2;
+    const childZ = cellZ * 2;
+    this.traverseClosestCell(level + 1, childX + firstX, childZ + firstZ);
+    this.traverseClosestCell(level + 1, childX + (1 - firstX), childZ + firstZ);
+    this.traverseClosestCell(level + 1, childX + firstX, childZ + (1 - firstZ));
+    this.traverseClosestCell(level + 1, childX + (1 - firstX), childZ + (1 - firstZ));
+  }
+
+  /**
+   * Test the texel quads of a finest-level cell that lie within the current search distance.
+   * @returns Whether a closer triangle was found
+   */
+  private scanCell(minX: number, minZ: number, cellSize: number): boolean {
+    const heightfield = this.terrain.getHeightfield()!;
+    const { worldSize } = this.terrain.getConfig();
+    const halfWorld = worldSize / 2;
+    const stepX = worldSize / heightfield.width;
+    const stepZ = worldSize / heightfield.height;
+    const originX = -halfWorld + stepX * 0.5;
+    const originZ = -halfWorld + stepZ * 0.5;
+    const reach = this.closestDistance;
+
+    const fromX = Math.max(minX, this.segmentMin.x - reach);
+    const toX = Math.min(minX + cellSize, this.segmentMax.x + reach);
+    const fromZ = Math.max(minZ, this.segmentMin.z - reach);
+    const toZ = Math.min(minZ + cellSize, this.segmentMax.z + reach);
+    if (fromX > toX || fromZ > toZ) return false;
+
+    const startQuadX = Math.max(-1, Math.floor((fromX - originX) / stepX));
+    const endQuadX = Math.min(heightfield.width - 1, Math.floor((toX - originX) / stepX));
+    const startQuadZ = Math.max(-1, Math.floor((fromZ - originZ) / stepZ));
+    const endQuadZ = Math.min(heightfield.height - 1, Math.floor((toZ - originZ) / stepZ));
+
+    let improved = false;
+    for (let quadZ = startQuadZ; quadZ <= endQuadZ; quadZ++) {
+      for (let quadX = startQuadX; quadX <= endQuadX; quadX++) {
+        const a = this.getVertex(quadX, quadZ, this.vA);
+        const b = this.getVertex(quadX, quadZ + 1, this.vB);
+        const c = this.getVertex(quadX + 1, quadZ + 1, this.vC);
+        const d = this.getVertex(quadX + 1, quadZ, this.vD);
+        if (this.testSegmentTriangle(a, b, d)) improved = true;
+        if (this.testSegmentTriangle(b, c, d)) improved = true;
+        if (this.closestDistance === 0) return true;
+      }
+    }
+    return improved;
+  }
+
+  /**
+   * Closest distance between the current segment and a triangle.
+   * @returns Whether the triangle is closer than the best so far
+   */
+  private testSegmentTriangle(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): boolean {
+    // Cheap reject on the triangle's bounds
+    const bound = this.getBoxDistance(
+      Math.min(a.x, b.x, c.x), Math.min(a.y, b.y, c.y), Math.min(a.z, b.z, c.z),
+      Math.max(a.x, b.x, c.x), Math.max(a.y, b.y, c.y), Math.max(a.z, b.z, c.z)
+    );
+    if (bound >= this.closestDistance) return false;
+
+    const triangle = this.triangle.set(a, b, c);
+    const onSegment = this.candidateOnSegment;
+    const onSurface = this.candidateOnSurface;
+    let distanceSq: number;
+
+    if (this.segmentLength <= 1e-9) {
+      onSegment.copy(this.segment.start);
+      triangle.closestPointToPoint(onSegment, onSurface);
+      distanceSq = onSegment.distanceToSquared(onSurface);
+    } else if (
+      this.segmentRay.intersectTriangle(a, b, c, false, onSurface)
+      && this.segment.start.distanceTo(onSurface) <= this.segmentLength
+    ) {
+      onSegment.copy(onSurface);
+      distanceSq = 0;
+    } else {
+      // Otherwise the closest pair involves a segment end or a triangle edge
+      distanceSq = this.testSegmentPoint(this.segment.start, Infinity);
+      distanceSq = this.testSegmentPoint(this.segment.end, distanceSq);
+      distanceSq = this.testSegmentEdge(a, b, distanceSq);
+      distanceSq = this.testSegmentEdge(b, c, distanceSq);
+      distanceSq = this.testSegmentEdge(c, a, distanceSq);
+    }
+
+    const distance = Math.sqrt(distanceSq);
+    if (distance >= this.closestDistance) return false;
+
+    this.closestDistance = distance;
+    this.closestOnSegment.copy(onSegment);
+    this.closestOnSurface.copy(onSurface);
+    triangle.getNormal(this.closestNormal);
+    if (this.closestNormal.y < 0) this.closestNormal.negate();
+    return true;
+  }
+
+  /**
+   * Keep the closest triangle point to a segment end if it beats `bestSq`.
+   */
+  private testSegmentPoint(point: THREE.Vector3, bestSq: number): number {
+    const onSurface = this.triangle.closestPointToPoint(point, this.triangleHit);
+    const distanceSq = point.distanceToSquared(onSurface);
+    if (distanceSq >= bestSq) return bestSq;
+    this.candidateOnSegment.copy(point);
+    this.candidateOnSurface.copy(onSurface);
+    return distanceSq;
+  }
+
+  /**
+   * Keep the closest points between the segment and a triangle edge if they beat `bestSq`.
+   */
+  private testSegmentEdge(from: THREE.Vector3, to: THREE.Vector3, bestSq: number): number {
+    this.edgeLine.set(from, to);
+    const distanceSq = this.segment.distanceSqToLine3(this.edgeLine, this.edge1, this.edge2);
+    if (distanceSq >= bestSq) return bestSq;
+    this.candidateOnSegment.copy(this.edge1);
+    this.candidateOnSurface.copy(this.edge2);
+    return distanceSq;
+  }
+
+  /**
+   * Distance from the current segment's bounding box to an axis-aligned box (a lower bound
+   * on the distance from the segment to anything inside the box).
+   */
+  private getBoxDistance(
+    minX: number, minY: number, minZ: number,
+    maxX: number, maxY: number, maxZ: number
+  ): number {
+    const dx = Math.max(0, minX - this.segmentMax.x, this.segmentMin.x - maxX);
+    const dy = Math.max(0, minY - this.segmentMax.y, this.segmentMin.y - maxY);
+    const dz = Math.max(0, minZ - this.segmentMax.z, this.segmentMin.z - maxZ);
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+
+  /**
+   * Visit a pyramid cell if the ray enters its bounds before the best hit so far.
+   */
+  private traverseCell(level: number, cellX: number, cellZ: number): void {
+    const config = this.terrain.getConfig();
+    const halfWorld = config.worldSize / 2;
+    const cellSize = config.worldSize / (1 << level);
+    const minX = cellX * cellSize - halfWorld;
+    const minZ = cellZ * cellSize - halfWorld;
+    const range = this.terrain.getNodeHeightRange(level, cellX, cellZ);
+
+    if (!this.intersectBox(minX, range.min, minZ, minX + cellSize, range.max, minZ + cellSize)) return;
+    if (this.boxEnter > this.bestDistance) return;
+
+    if (level >= config.levels - 1) {
+      this.marchTexels(this.boxEnter, Math.min(this.boxExit, this.bestDistance));
+      return;
+    }
+
+    // Front-to-back child order from the ray direction
+    const firstX = this.ray.direction.x >= 0 ? 0 : 1;
+    const firstZ = this.ray.direction.z >= 0 ? 0 : 1;
+    const childX = cellX * 2;
+    const childZ = cellZ * 2;
+    this.traverseCell(level + 1, childX + firstX, childZ + firstZ);
+    this.traverseCell(level + 1, childX + (1 - firstX), childZ + firstZ);
+    this.traverseCell(level + 1, childX + firstX, childZ + (1 - firstZ));
+    this.traverseCell(level + 1, childX + (1 - firstX), childZ + (1 - firstZ));
+  }
+
+  /**
+   * Walk the texel quads crossed by the ray between two distances (2D DDA).
+   */
+  private marchTexels(tStart: number, tEnd: number): void {
+    const heightfield = this.terrain.getHeightfield()!;
+    const { worldSize } = this.terrain.getConfig();
+    const halfWorld = worldSize / 2;
+    const stepX = worldSize / heightfield.width;
+    const stepZ = worldSize / heightfield.height;
+    // Quad i spans the centres of texels i and i + 1
+    const originX = -halfWorld + stepX * 0.5;
+    const originZ = -halfWorld + stepZ * 0.5;
+
+    const { origin, direction } = this.ray;
+    const startX = origin.x + direction.x * tStart;
+    const startZ = origin.z + direction.z * tStart;
+    let quadX = Math.min(heightfield.width - 1, Math.max(-1, Math.floor((startX - originX) / stepX)));
+    let quadZ = Math.min(heightfield.height - 1, Math.max(-1, Math.floor((startZ - originZ) / stepZ)));
+
+    const dirX = direction.x;
+    const dirZ = direction.z;
+    const stepQuadX = dirX > 0 ? 1 : -1;
+    const stepQuadZ = dirZ > 0 ? 1 : -1;
+    const tDeltaX = dirX !== 0 ? stepX / Math.abs(dirX) : Infinity;
+    const tDeltaZ = dirZ !== 0 ? stepZ / Math.abs(dirZ) : Infinity;
+    let tMaxX = dirX !== 0
+      ? ((originX + (quadX + (dirX > 0 ? 1 : 0)) * stepX) - origin.x) / dirX
+      : Infinity;
+    let tMaxZ = dirZ !== 0
+      ? ((originZ + (quadZ + (dirZ > 0 ? 1 : 0)) * stepZ) - origin.z) / dirZ
+      : Infinity;
+
+    for (;;) {
+      this.intersectQuad(quadX, quadZ);
+
+      const tNext = Math.min(tMaxX, tMaxZ);
+      // Quads are visited front to back, so a hit before the next boundary is final
+      if (tNext > tEnd || this.bestDistance <= tNext) break;
+
+      if (tMaxX < tMaxZ) {
+        quadX += stepQuadX;
+        tMaxX += tDeltaX;
+      } else {
+        quadZ += stepQuadZ;
+        tMaxZ += tDeltaZ;
+      }
+      if (quadX < -1 || quadX >= heightfield.width || quadZ < -1 || quadZ >= heightfield.height) break;
+    }
+  }
+
+  /**
+   * Test both triangles of a texel quad and keep the closest hit.
+   */
+  private intersectQuad(quadX: number, quadZ: number): void {
+    const a = this.getVertex(quadX, quadZ, this.vA);
+    const b = this.getVertex(quadX, quadZ + 1, this.vB);
+    const c = this.getVertex(quadX + 1, quadZ + 1, this.vC);
+    const d = this.getVertex(quadX + 1, quadZ, this.vD);
+
+    // Same split as THREE.PlaneGeometry: (a, b, d) and (b, c, d)
+    this.intersectTriangle(a, b, d, quadX, quadZ, quadX, quadZ + 1, quadX + 1, quadZ);
+    this.intersectTriangle(b, c, d, quadX, quadZ + 1, quadX + 1, quadZ + 1, quadX + 1, quadZ);
+  }
+
+  private intersectTriangle(
+    a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3,
+    ax: number, az: number, bx: number, bz: number, cx: number, cz: number
+  ): void {
+    const point = this.ray.intersectTriangle(a, b, c, false, this.triangleHit);
+    if (!point) return;
+
+    const distance = this.ray.origin.distanceTo(point);
+    if (distance > this.bestDistance) return;
+
+    const hit = this.activeHit!;
+    this.bestDistance = distance;
+    this.hitFound = true;
+    hit.distance = distance;
+    hit.point.copy(point);
+    this.edge1.subVectors(b, a);
+    this.edge2.subVectors(c, a);
+    hit.normal.crossVectors(this.edge1, this.edge2).normalize();
+    if (hit.normal.y < 0) hit.normal.negate();
+    hit.a = this.getTexelIndex(ax, az);
+    hit.b = this.getTexelIndex(bx, bz);
+    hit.c = this.getTexelIndex(cx, cz);
+  }
+
+  /**
+   * Position of a texel centre, clamped to the terrain bounds, with its height.
+   */
+  private getVertex(texelX: number, texelZ: number, target: THREE.Vector3): THREE.Vector3 {
+    const heightfield = this.terrain.getHeightfield()!;
+    const { worldSize, maxHeight } = this.terrain.getConfig();
+    const halfWorld = worldSize / 2;
+    const x = ((texelX + 0.5) / heightfield.width) * worldSize - halfWorld;
+    const z = ((texelZ + 0.5) / heightfield.height) * worldSize - halfWorld;
+    return target.set(
+      Math.min(halfWorld, Math.max(-halfWorld, x)),
+      heightfield.getTexel(texelX, texelZ) * maxHeight,
+      Math.min(halfWorld, Math.max(-halfWorld, z))
+    );
+  }
+
+  private getTexelIndex(texelX: number, texelZ: number): number {
+    const heightfield = this.terrain.getHeightfield()!;
+    const x = Math.min(heightfield.width - 1, Math.max(0, texelX));
+    const z = Math.min(heightfield.height - 1, Math.max(0, texelZ));
+    return z * heightfield.width + x;
+  }
+
+  /**
+   * Slab test against an axis-aligned box.
+   * Writes the entry (clamped to 0) and exit distances to `boxEnter`/`boxExit`.
+   * @returns Whether the ray hits the box
+   */
+  private intersectBox(
+    minX: number, minY: number, minZ: number,
+    maxX: number, maxY: number, maxZ: number
+  ): boolean {
+    const { origin, direction } = this.ray;
+    this.boxEnter = 0;
+    this.boxExit = Infinity;
+    return this.clipSlab(origin.x, direction.x, minX, maxX)
+      && this.clipSlab(origin.y, direction.y, minY, maxY)
+      && this.clipSlab(origin.z, direction.z, minZ, maxZ);
+  }
+
+  private clipSlab(origin: number, direction: number, min: number, max: number): boolean {
+    if (Math.abs(direction) < 1e-12) return origin >= min && origin <= max;
+    const t0 = (min - origin) / direction;
+    const t1 = (max - origin) / direction;
+    this.boxEnter = Math.max(this.boxEnter, Math.min(t0, t1));
+    this.boxExit = Math.min(this.boxExit, Math.max(t0, t1));
+    return this.boxEnter <= this.boxExit;
+  }
+}
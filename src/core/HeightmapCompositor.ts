@@ -1,9 +1,86 @@
 import * as THREE from 'three';
 import {
-    texture, uv, uniform, vec2, vec3, vec4, float, max, add, sub,
-    smoothstep, length, pow, mix, Fn
+    texture, uv, uniform, vec3, vec4, float, mul, sub,
+    smoothstep, length, pow, mix
 } from 'three/tsl';
-import { MeshBasicNodeMaterial } from 'three/webgpu';
+import { MeshBasicNodeMaterial, TextureNode, WebGPURenderer } from 'three/webgpu';
+import { DirtyRegionRect } from './types';
+
+type Node = any;
+type UniformNode<T = any> = any;
+
+/**
+ * Rendering backend of the compositor.
+ * - `webgpu`: TSL node materials and a generic RenderTarget, for WebGPURenderer
+ * - `webgl`: GLSL shader materials and a WebGLRenderTarget, for WebGLRenderer
+ */
+export type HeightmapCompositorBackend = 'webgpu' | 'webgl';
+
+/**
+ * Renderers accepted by `HeightmapCompositor.compose()`; must match the configured backend.
+ */
+export type HeightmapCompositorRenderer = THREE.WebGLRenderer | WebGPURenderer;
+
+/**
+ * Render-target API shared by WebGLRenderer and WebGPURenderer.
+ */
+interface CompositorRenderContext {
+    autoClear: boolean;
+    getRenderTarget(): THREE.RenderTarget | null;
+    setRenderTarget(renderTarget: THREE.RenderTarget | null): void;
+    clear(): void;
+    render(scene: THREE.Object3D, camera: THREE.Camera): void;
+}
+
+/**
+ * Uniform nodes of a WebGPU brush material.
+ */
+interface BrushNodes {
+    alphaMap: TextureNode;
+    falloff: UniformNode<number>;
+    inclineStrength: UniformNode<number>;
+    maxHeight: UniformNode<number>;
+    /** Blend mode the material's output node was built for */
+    blendMode: HeightmapBlendMode;
+}
+
+/**
+ * How a brush stamp combines with the heights beneath it.
+ * The stamp's strength is `pow(alpha.r * edgeFalloff, inclineStrength)` and its value is
+ * `strength * height` (normalized).
+ * - `add` / `subtract`: add or subtract the value
+ * - `max` / `min`: keep the higher / lower of the value and the current height
+ *   (`min` only applies where the stamp's alpha channel and falloff cover)
+ * - `replace`: replace heights with the value, weighted by alpha channel and falloff
+ * - `multiply`: scale heights by `height` at full strength, by 1 where the strength is 0
+ * - `lerp-to-target`: move heights toward `height` by the strength (flatten/plateau)
+ */
+export type HeightmapBlendMode =
+    | 'add'
+    | 'subtract'
+    | 'max'
+    | 'min'
+    | 'replace'
+    | 'multiply'
+    | 'lerp-to-target';
+
+/**
+ * Shader ids of the blend modes that need their own fragment output.
+ */
+const BLEND_MODE_SHADER_IDS: Record<HeightmapBlendMode, number> = {
+    'add': 0,
+    'subtract': 0,
+    'max': 0,
+    'min': 1,
+    'replace': 2,
+    'multiply': 3,
+    'lerp-to-target': 4
+};
+
+/**
+ * Pending regions beyond which they are merged into their bounding rectangle.
+ */
+const MAX_DIRTY_REGIONS = 16;
 
 /**
  * Brush data for heightmap composition.
@@ -20,7 +97,7 @@ export interface BrushData {
     /** Grayscale brush alpha texture (white = full height) */
     alphaTexture: THREE.Texture;
     /** Blend mode for composition */
-    blendMode: 'add' | 'max' | 'subtract';
+    blendMode: HeightmapBlendMode;
     /** Edge falloff (0 = hard edge, 1 = full fade) */
     falloff: number;
     /** Power curve for height (1 = linear, >1 = sharper peaks) */
@@ -41,6 +118,8 @@ export interface HeightmapCompositorConfig {
     worldSize?: number;
     /** Base height (black level, default: 0) */
     baseHeight?: number;
+    /** Rendering backend; must match the renderer passed to compose() (default: 'webgl') */
+    backend?: HeightmapCompositorBackend;
 }
 
 /**
@@ -50,6 +129,7 @@ interface ResolvedCompositorConfig {
     resolution: number;
     worldSize: number;
     baseHeight: number;
+    backend: HeightmapCompositorBackend;
 }
 
 /**
@@ -57,6 +137,8 @@ interface ResolvedCompositorConfig {
  * 
  * Renders brush stamps to a render target using GPU blending,
  * producing a heightmap texture that can be used for terrain displacement.
+ * Composes with a WebGLRenderer by default; set `backend: 'webgpu'` to use
+ * TSL node materials with a WebGPURenderer instead.
  * 
  * @example
  * ```typescript
@@ -75,43 +157,54 @@ interface ResolvedCompositorConfig {
  *     visible: true
  * });
  * 
- * // In render loop
+ * // In render loop (renderer: WebGLRenderer)
  * compositor.compose(renderer);
  * terrain.setHeightMap(compositor.getOutputTexture());
  * ```
  */
 export class HeightmapCompositor {
     private config: ResolvedCompositorConfig;
-    private renderTarget: THREE.WebGLRenderTarget;
+    private renderTarget: THREE.RenderTarget;
     private compositorScene: THREE.Scene;
     private compositorCamera: THREE.OrthographicCamera;
     private brushes: Map<string, BrushData> = new Map();
     private brushMeshes: Map<string, THREE.Mesh> = new Map();
+    private brushNodes: Map<string, BrushNodes> = new Map();
+    private nextRenderOrder: number = 0;
+    /** Whole target needs recomposition */
     private isDirty: boolean = true;
-    private baseMaterial: THREE.MeshBasicMaterial;
+    /** Texel regions touched by brush edits since the last compose */
+    private dirtyRegions: DirtyRegionRect[] = [];
+    /** Texel region each brush covered when last applied */
+    private brushRegions: Map<string, DirtyRegionRect> = new Map();
+    /** Bumped by edits; in-flight async readbacks from an older generation resolve to null */
+    private readGeneration: number = 0;
+    private baseMaterial: THREE.MeshBasicMaterial | MeshBasicNodeMaterial;
     private outputTexture: THREE.Texture;
 
     constructor(config: HeightmapCompositorConfig = {}) {
         this.config = {
             resolution: config.resolution ?? 1024,
             worldSize: config.worldSize ?? 2048,
-            baseHeight: config.baseHeight ?? 0
+            baseHeight: config.baseHeight ?? 0,
+            backend: config.backend ?? 'webgl'
         };
 
         // Create render target (RGBA format for compatibility, R channel = height)
-        this.renderTarget = new THREE.WebGLRenderTarget(
-            this.config.resolution,
-            this.config.resolution,
-            {
-                type: THREE.FloatType,
-                format: THREE.RGBAFormat,
-                magFilter: THREE.LinearFilter,
-                minFilter: THREE.LinearMipMapLinearFilter,
-                generateMipmaps: true,
-                depthBuffer: false,
-                stencilBuffer: false
-            }
-        );
+        const isWebGPU = this.config.backend === 'webgpu';
+        const targetOptions: THREE.RenderTargetOptions = {
+            // WebGPU can only blend into 32-bit float targets with an optional feature
+            type: isWebGPU ? THREE.HalfFloatType : THREE.FloatType,
+            format: THREE.RGBAFormat,
+            magFilter: THREE.LinearFilter,
+            minFilter: THREE.LinearMipMapLinearFilter,
+            generateMipmaps: true,
+            depthBuffer: false,
+            stencilBuffer: false
+        };
+        this.renderTarget = isWebGPU
+            ? new THREE.RenderTarget(this.config.resolution, this.config.resolution, targetOptions)
+            : new THREE.WebGLRenderTarget(this.config.resolution, this.config.resolution, targetOptions);
 
         // Compositor scene and orthographic camera
         this.compositorScene = new THREE.Scene();
@@ -126,19 +219,21 @@ export class HeightmapCompositor {
         this.compositorCamera.lookAt(0, 0, 0);
 
         // Base plane (black background)
-        this.baseMaterial = new THREE.MeshBasicMaterial({
-            color: new THREE.Color(
-                this.config.baseHeight / 255,
-                this.config.baseHeight / 255,
-                this.config.baseHeight / 255
-            )
-        });
+        const baseColor = new THREE.Color(
+            this.config.baseHeight / 255,
+            this.config.baseHeight / 255,
+            this.config.baseHeight / 255
+        );
+        this.baseMaterial = isWebGPU
+            ? new MeshBasicNodeMaterial({ color: baseColor })
+            : new THREE.MeshBasicMaterial({ color: baseColor });
         const basePlane = new THREE.Mesh(
             new THREE.PlaneGeometry(this.config.worldSize, this.config.worldSize),
             this.baseMaterial
         );
         basePlane.rotation.x = -Math.PI / 2;
         basePlane.position.y = -10; // Below brushes
+        basePlane.renderOrder = -1;
         this.compositorScene.add(basePlane);
 
         this.outputTexture = this.renderTarget.texture;
@@ -151,7 +246,7 @@ export class HeightmapCompositor {
     addBrush(brush: BrushData): void {
         this.brushes.set(brush.uuid, brush);
         this._createBrushMesh(brush);
-        this.isDirty = true;
+        this._markBrushDirty(brush);
     }
 
     /**
@@ -165,7 +260,7 @@ export class HeightmapCompositor {
 
         Object.assign(brush, updates);
         this._updateBrushMesh(uuid);
-        this.isDirty = true;
+        this._markBrushDirty(brush);
     }
 
     /**
@@ -182,8 +277,11 @@ export class HeightmapCompositor {
             (mesh.material as THREE.Material).dispose();
             this.brushMeshes.delete(uuid);
         }
+        this.brushNodes.delete(uuid);
 
-        this.isDirty = true;
+        const region = this.brushRegions.get(uuid);
+        if (region) this._markRegionDirty(region);
+        this.brushRegions.delete(uuid);
     }
 
     /**
@@ -206,39 +304,71 @@ export class HeightmapCompositor {
      */
     markDirty(): void {
         this.isDirty = true;
+        this.dirtyRegions = [];
+        this.readGeneration++;
     }
 
     /**
      * Check if compositor needs updating.
      */
     needsUpdate(): boolean {
-        return this.isDirty;
+        return this.isDirty || this.dirtyRegions.length > 0;
     }
 
     /**
-     * Compose all brushes to the render target.
-     * Call this every frame or when brushes change.
-     * @param renderer - WebGL renderer
-     * @param force - Force composition even if not dirty
+     * Get the texel regions the next compose() will recompose.
+     * Regions are in output texture order (row 0 = +Z edge, as `readBackHeightMap()`).
      */
-    compose(renderer: THREE.WebGLRenderer, force: boolean = false): void {
-        if (!this.isDirty && !force) return;
+    getDirtyRegions(): DirtyRegionRect[] {
+        if (this.isDirty) return [this._getFullRegion()];
+        return this.dirtyRegions.map((region) => ({ ...region }));
+    }
 
-        // Store current state
-        const currentRenderTarget = renderer.getRenderTarget();
-        const currentAutoClear = renderer.autoClear;
+    /**
+     * Compose brushes to the render target.
+     * Only the regions touched by addBrush/updateBrush/removeBrush since the last call are
+     * re-rendered (scissored); markDirty(), setBaseHeight() and `force` recompose everything.
+     * @param renderer - WebGLRenderer (default backend) or WebGPURenderer (`backend: 'webgpu'`)
+     * @param force - Force full composition even if not dirty
+     * @returns Recomposed texel regions (see getDirtyRegions()); empty if nothing changed
+     */
+    compose(renderer: HeightmapCompositorRenderer, force: boolean = false): DirtyRegionRect[] {
+        if (!this.needsUpdate() && !force) return [];
 
-        // Render to our target
-        renderer.setRenderTarget(this.renderTarget);
-        renderer.autoClear = true;
-        renderer.clear();
-        renderer.render(this.compositorScene, this.compositorCamera);
+        this._assertRenderer(renderer);
+        // WebGLRenderer types its target parameter as WebGLRenderTarget; ours matches the backend
+        const context = renderer as unknown as CompositorRenderContext;
+
+        // Store current state
+        const currentRenderTarget = context.getRenderTarget();
+        const currentAutoClear = context.autoClear;
+
+        const regions = force ? [this._getFullRegion()] : this.getDirtyRegions();
+        if (force || this.isDirty) {
+            // Render to our target
+            context.setRenderTarget(this.renderTarget);
+            context.autoClear = true;
+            context.clear();
+            context.render(this.compositorScene, this.compositorCamera);
+        } else {
+            // The opaque base plane resets each region, so the rest of the target is kept
+            context.autoClear = false;
+            this.renderTarget.scissorTest = true;
+            for (const region of regions) {
+                this.renderTarget.scissor.set(region.x, region.y, region.width, region.height);
+                context.setRenderTarget(this.renderTarget);
+                context.render(this.compositorScene, this.compositorCamera);
+            }
+            this.renderTarget.scissorTest = false;
+        }
 
         // Restore state
-        renderer.setRenderTarget(currentRenderTarget);
-        renderer.autoClear = currentAutoClear;
+        context.setRenderTarget(currentRenderTarget);
+        context.autoClear = currentAutoClear;
 
         this.isDirty = false;
+        this.dirtyRegions = [];
+        return regions;
     }
 
     /**
@@ -251,11 +381,16 @@ export class HeightmapCompositor {
 
     /**
      * Read back heightmap data from GPU to CPU.
-     * WARNING: This is a slow operation (blocking read). Use sparingly (e.g., on mouse up).
+     * WARNING: This is a slow operation (blocking read). Prefer readBackHeightMapAsync().
+     * Only available with the WebGL backend; WebGPU render targets cannot be read synchronously.
      * @param renderer - WebGL renderer
      * @returns Float32Array containing height values (0-1)
      */
     readBackHeightMap(renderer: THREE.WebGLRenderer): Float32Array {
+        if (!(this.renderTarget instanceof THREE.WebGLRenderTarget)) {
+            throw new Error('HeightmapCompositor: readBackHeightMap() requires the webgl backend');
+        }
+
         const width = this.config.resolution;
         const height = this.config.resolution;
         const buffer = new Float32Array(width * height * 4); // RGBA
@@ -279,10 +414,71 @@ export class HeightmapCompositor {
         return heights;
     }
 
+    /**
+     * Read back heights from GPU to CPU without blocking the frame.
+     * Reads the render target as last composed; call compose() (or a binding's update())
+     * first so pending edits are included. The read is superseded, and resolves to null,
+     * when the brushes change (or cancelReadBacks() is called) before it completes.
+     * @param renderer - Renderer matching the backend
+     * @param region - Texel region in output texture order (see getDirtyRegions()); whole map if omitted
+     * @returns Row-major heights (0-1) of the region, or null if superseded
+     */
+    async readBackHeightMapAsync(
+        renderer: HeightmapCompositorRenderer,
+        region?: DirtyRegionRect | null
+    ): Promise<Float32Array | null> {
+        this._assertRenderer(renderer);
+        const generation = this.readGeneration;
+
+        const resolution = this.config.resolution;
+        const x = Math.max(0, Math.min(resolution, Math.floor(region?.x ?? 0)));
+        const y = Math.max(0, Math.min(resolution, Math.floor(region?.y ?? 0)));
+        const width = Math.max(0, Math.min(resolution - x, Math.ceil(region?.width ?? resolution)));
+        const height = Math.max(0, Math.min(resolution - y, Math.ceil(region?.height ?? resolution)));
+        if (width === 0 || height === 0) return new Float32Array(0);
+
+        let data: ArrayLike<number>;
+        let flipRows = false;
+        if (this.renderTarget instanceof THREE.WebGLRenderTarget) {
+            const buffer = new Float32Array(width * height * 4); // RGBA
+            data = await (renderer as THREE.WebGLRenderer).readRenderTargetPixelsAsync(
+                this.renderTarget, x, y, width, height, buffer
+            ) as Float32Array;
+        } else {
+            // WebGPU textures store rows top-down, so the region is mirrored vertically
+            data = await (renderer as WebGPURenderer).readRenderTargetPixelsAsync(
+                this.renderTarget, x, resolution - y - height, width, height
+            ) as Float32Array | Uint16Array;
+            flipRows = true;
+        }
+        if (generation !== this.readGeneration) return null;
+
+        // Rows may be padded (WebGPU aligns them to 256 bytes); extract the R channel
+        const rowStride = Math.floor(data.length / height);
+        const halfFloat = data instanceof Uint16Array;
+        const heights = new Float32Array(width * height);
+        for (let row = 0; row < height; row++) {
+            const source = (flipRows ? height - 1 - row : row) * rowStride;
+            for (let col = 0; col < width; col++) {
+                const value = data[source + col * 4];
+                heights[row * width + col] = halfFloat ? THREE.DataUtils.fromHalfFloat(value) : value;
+            }
+        }
+
+        return heights;
+    }
+
+    /**
+     * Make in-flight readBackHeightMapAsync() calls resolve to null.
+     */
+    cancelReadBacks(): void {
+        this.readGeneration++;
+    }
+
     /**
      * Get the render target for advanced use.
      */
-    getRenderTarget(): THREE.WebGLRenderTarget {
+    getRenderTarget(): THREE.RenderTarget {
         return this.renderTarget;
     }
 
@@ -301,7 +497,7 @@ export class HeightmapCompositor {
         this.config.baseHeight = height;
         const normalizedHeight = height / 255;
         this.baseMaterial.color.setRGB(normalizedHeight, normalizedHeight, normalizedHeight);
-        this.isDirty = true;
+        this.markDirty();
     }
 
     /**
@@ -311,13 +507,14 @@ export class HeightmapCompositor {
         for (const uuid of this.brushes.keys()) {
             this.removeBrush(uuid);
         }
-        this.isDirty = true;
+        this.markDirty();
     }
 
     /**
      * Dispose all resources.
      */
     dispose(): void {
+        this.cancelReadBacks();
         this.clear();
         this.renderTarget.dispose();
         this.baseMaterial.dispose();
@@ -348,6 +545,72 @@ export class HeightmapCompositor {
     // Private Methods
     // ============================================
 
+    /**
+     * Mark the brush's previous and current regions for recomposition.
+     */
+    private _markBrushDirty(brush: BrushData): void {
+        const previous = this.brushRegions.get(brush.uuid);
+        if (previous) this._markRegionDirty(previous);
+
+        const region = this._getBrushRegion(brush);
+        this.brushRegions.set(brush.uuid, region);
+        this._markRegionDirty(region);
+    }
+
+    private _markRegionDirty(region: DirtyRegionRect): void {
+        this.readGeneration++;
+        if (this.isDirty || region.width <= 0 || region.height <= 0) return;
+
+        this.dirtyRegions.push(region);
+        if (this.dirtyRegions.length > MAX_DIRTY_REGIONS) {
+            let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+            for (const r of this.dirtyRegions) {
+                minX = Math.min(minX, r.x);
+                minY = Math.min(minY, r.y);
+                maxX = Math.max(maxX, r.x + r.width);
+                maxY = Math.max(maxY, r.y + r.height);
+            }
+            this.dirtyRegions = [{ x: minX, y: minY, width: maxX - minX, height: maxY - minY }];
+        }
+    }
+
+    /**
+     * Texel region covered by a brush quad (world bounds, padded by one texel).
+     * Row 0 is the +Z edge of the world, matching the output texture's v = 0.
+     */
+    private _getBrushRegion(brush: BrushData): DirtyRegionRect {
+        const { resolution, worldSize } = this.config;
+        const halfWorld = worldSize / 2;
+        const texelSize = worldSize / resolution;
+        const cos = Math.abs(Math.cos(brush.rotation.y));
+        const sin = Math.abs(Math.sin(brush.rotation.y));
+        const extentX = (Math.abs(brush.scale.x) * cos + Math.abs(brush.scale.z) * sin) / 2;
+        const extentZ = (Math.abs(brush.scale.x) * sin + Math.abs(brush.scale.z) * cos) / 2;
+
+        const minX = Math.max(0, Math.floor((brush.position.x - extentX + halfWorld) / texelSize) - 1);
+        const maxX = Math.min(resolution, Math.ceil((brush.position.x + extentX + halfWorld) / texelSize) + 1);
+        const minY = Math.max(0, Math.floor((halfWorld - brush.position.z - extentZ) / texelSize) - 1);
+        const maxY = Math.min(resolution, Math.ceil((halfWorld - brush.position.z + extentZ) / texelSize) + 1);
+        return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) };
+    }
+
+    /**
+     * Throw if the renderer does not match the configured backend.
+     */
+    private _assertRenderer(renderer: HeightmapCompositorRenderer): void {
+        const isWebGPURenderer = (renderer as WebGPURenderer).isWebGPURenderer === true;
+        if (isWebGPURenderer !== (this.config.backend === 'webgpu')) {
+            throw new Error(
+                `HeightmapCompositor: the '${this.config.backend}' backend cannot compose with a ` +
+                `${isWebGPURenderer ? 'WebGPURenderer' : 'WebGLRenderer'}; set config.backend to match`
+            );
+        }
+    }
+
+    private _getFullRegion(): DirtyRegionRect {
+        return { x: 0, y: 0, width: this.config.resolution, height: this.config.resolution };
+    }
+
     /**
      * Create a mesh for a brush.
      */
@@ -361,6 +624,8 @@ export class HeightmapCompositor {
 
         const mesh = new THREE.Mesh(geometry, material);
         mesh.name = `brush_${brush.uuid}`;
+        // Order-dependent modes (replace, multiply, lerp) apply in insertion order
+        mesh.renderOrder = this.nextRenderOrder++;
 
         this._applyBrushTransform(mesh, brush);
 
@@ -389,11 +654,29 @@ export class HeightmapCompositor {
         }
 
         // Update material if needed
+        const nodes = this.brushNodes.get(uuid);
+        if (nodes) {
+            const material = mesh.material as MeshBasicNodeMaterial;
+            nodes.alphaMap.value = brush.alphaTexture;
+            nodes.falloff.value = brush.falloff;
+            nodes.inclineStrength.value = brush.inclineStrength;
+            nodes.maxHeight.value = brush.height / 255; // Normalize
+            if (nodes.blendMode !== brush.blendMode) {
+                nodes.blendMode = brush.blendMode;
+                material.fragmentNode = this._createBrushOutputNode(nodes);
+            }
+            this._applyBlending(material, brush.blendMode);
+            return;
+        }
+
         const material = mesh.material as THREE.ShaderMaterial;
         if (material.uniforms) {
             material.uniforms.falloff.value = brush.falloff;
             material.uniforms.inclineStrength.value = brush.inclineStrength;
             material.uniforms.maxHeight.value = brush.height / 255; // Normalize
+            material.uniforms.alphaMap.value = brush.alphaTexture;
+            material.uniforms.blendMode.value = BLEND_MODE_SHADER_IDS[brush.blendMode];
+            this._applyBlending(material, brush.blendMode);
         }
     }
 
@@ -407,17 +690,77 @@ export class HeightmapCompositor {
     }
 
     /**
-     * Create material for brush based on blend mode.
+     * Create material for brush for the configured backend.
+     */
+    private _createBrushMaterial(brush: BrushData): THREE.Material {
+        return this.config.backend === 'webgpu'
+            ? this._createBrushNodeMaterial(brush)
+            : this._createBrushShaderMaterial(brush);
+    }
+
+    /**
+     * Create a TSL node material for a brush (WebGPU backend).
+     */
+    private _createBrushNodeMaterial(brush: BrushData): MeshBasicNodeMaterial {
+        const nodes: BrushNodes = {
+            alphaMap: texture(brush.alphaTexture),
+            falloff: uniform(brush.falloff),
+            inclineStrength: uniform(brush.inclineStrength),
+            maxHeight: uniform(brush.height / 255), // Normalize to 0-1 for texture
+            blendMode: brush.blendMode
+        };
+        this.brushNodes.set(brush.uuid, nodes);
+
+        const material = new MeshBasicNodeMaterial();
+        material.depthTest = false;
+        material.depthWrite = false;
+        material.fragmentNode = this._createBrushOutputNode(nodes);
+        this._applyBlending(material, brush.blendMode);
+
+        return material;
+    }
+
+    /**
+     * Build the fragment output of a brush node material; mirrors the GLSL brush shader.
      */
-    private _createBrushMaterial(brush: BrushData): THREE.ShaderMaterial {
-        // For now, use a simple shader material
-        // In production, this should use TSL nodes for WebGPU
+    private _createBrushOutputNode(nodes: BrushNodes): Node {
+        // Sample brush alpha texture (R = height profile, A = coverage)
+        const brushTexel: Node = nodes.alphaMap;
+
+        // Apply falloff from edges
+        const dist = length(sub(mul(uv(), 2.0), 1.0));
+        const falloffMask = sub(float(1.0), smoothstep(sub(float(1.0), nodes.falloff), float(1.0), dist));
+        const coverage = mul(brushTexel.a, falloffMask);
+
+        // Apply incline strength (power curve), then scale by max height
+        const height = pow(mul(brushTexel.r, falloffMask), nodes.inclineStrength);
+        const finalHeight = mul(height, nodes.maxHeight);
+
+        switch (nodes.blendMode) {
+            case 'min':
+                return vec4(vec3(mix(float(1.0), finalHeight, coverage)), 1.0);
+            case 'replace':
+                return vec4(vec3(finalHeight), coverage);
+            case 'multiply':
+                return vec4(vec3(mix(float(1.0), nodes.maxHeight, height)), 1.0);
+            case 'lerp-to-target':
+                return vec4(vec3(nodes.maxHeight), height);
+            default:
+                return vec4(vec3(finalHeight), 1.0);
+        }
+    }
+
+    /**
+     * Create a GLSL shader material for a brush (WebGL backend).
+     */
+    private _createBrushShaderMaterial(brush: BrushData): THREE.ShaderMaterial {
         const material = new THREE.ShaderMaterial({
             uniforms: {
                 alphaMap: { value: brush.alphaTexture },
                 falloff: { value: brush.falloff },
                 inclineStrength: { value: brush.inclineStrength },
-                maxHeight: { value: brush.height / 255 } // Normalize to 0-1 for texture
+                maxHeight: { value: brush.height / 255 }, // Normalize to 0-1 for texture
+                blendMode: { value: BLEND_MODE_SHADER_IDS[brush.blendMode] }
             },
             vertexShader: `
                 varying vec2 vUv;
@@ -431,16 +774,19 @@ export class HeightmapCompositor {
                 uniform float falloff;
                 uniform float inclineStrength;
                 uniform float maxHeight;
+                uniform int blendMode;
                 varying vec2 vUv;
                 
                 void main() {
-                    // Sample brush alpha texture
-                    float alpha = texture2D(alphaMap, vUv).r;
+                    // Sample brush alpha texture (R = height profile, A = coverage)
+                    vec4 brushTexel = texture2D(alphaMap, vUv);
+                    float alpha = brushTexel.r;
                     
                     // Apply falloff from edges
                     vec2 centered = vUv * 2.0 - 1.0;
                     float dist = length(centered);
                     float falloffMask = 1.0 - smoothstep(1.0 - falloff, 1.0, dist);
+                    float coverage = brushTexel.a * falloffMask;
                     
                     // Apply incline strength (power curve)
                     float height = pow(alpha * falloffMask, inclineStrength);
@@ -448,33 +794,70 @@ export class HeightmapCompositor {
                     // Scale by max height
                     float finalHeight = height * maxHeight;
                     
-                    gl_FragColor = vec4(finalHeight, finalHeight, finalHeight, 1.0);
+                    if (blendMode == 1) {
+                        // min: uncovered texels output 1 so they keep the current height
+                        gl_FragColor = vec4(vec3(mix(1.0, finalHeight, coverage)), 1.0);
+                    } else if (blendMode == 2) {
+                        // replace: alpha-blended over the current height
+                        gl_FragColor = vec4(vec3(finalHeight), coverage);
+                    } else if (blendMode == 3) {
+                        // multiply: factor for the destination-color blend
+                        gl_FragColor = vec4(vec3(mix(1.0, maxHeight, height)), 1.0);
+                    } else if (blendMode == 4) {
+                        // lerp-to-target: alpha-blend the target height by the strength
+                        gl_FragColor = vec4(vec3(maxHeight), height);
+                    } else {
+                        gl_FragColor = vec4(finalHeight, finalHeight, finalHeight, 1.0);
+                    }
                 }
             `,
-            transparent: false,
             depthTest: false,
-            depthWrite: false,
-            blending: this._getBlendingMode(brush.blendMode)
+            depthWrite: false
         });
+        this._applyBlending(material, brush.blendMode);
 
         return material;
     }
 
     /**
-     * Get Three.js blending constant for blend mode.
+     * Configure fixed-function blending for a blend mode.
+     * Color channels carry the height; the target's alpha channel is left untouched.
      */
-    private _getBlendingMode(mode: 'add' | 'max' | 'subtract'): THREE.Blending {
+    private _applyBlending(material: THREE.Material, mode: HeightmapBlendMode): void {
+        // WebGPU pipelines only enable blending for transparent materials
+        material.transparent = true;
+        material.blending = THREE.CustomBlending;
+        material.blendEquation = THREE.AddEquation;
+        material.blendSrc = THREE.OneFactor;
+        material.blendDst = THREE.OneFactor;
+        material.blendEquationAlpha = THREE.AddEquation;
+        material.blendSrcAlpha = THREE.ZeroFactor;
+        material.blendDstAlpha = THREE.OneFactor;
+
         switch (mode) {
-            case 'add':
-                return THREE.AdditiveBlending;
             case 'subtract':
-                return THREE.SubtractiveBlending;
+                // destination - source
+                material.blendEquation = THREE.ReverseSubtractEquation;
+                break;
             case 'max':
-                // Max blending isn't directly supported, use additive as fallback
-                // For true max blending, we'd need custom blend equations
-                return THREE.AdditiveBlending;
+                material.blendEquation = THREE.MaxEquation;
+                break;
+            case 'min':
+                material.blendEquation = THREE.MinEquation;
+                break;
+            case 'replace':
+            case 'lerp-to-target':
+                material.blendSrc = THREE.SrcAlphaFactor;
+                material.blendDst = THREE.OneMinusSrcAlphaFactor;
+                break;
+            case 'multiply':
+                material.blendSrc = THREE.DstColorFactor;
+                material.blendDst = THREE.ZeroFactor;
+                break;
+            case 'add':
             default:
-                return THREE.AdditiveBlending;
+                break;
         }
+        material.needsUpdate = true;
     }
 }
@@ -1,73 +1,297 @@
 import * as THREE from 'three';
 import type { TerrainLOD } from './TerrainLOD';
+import type { ResolvedTerrainConfig, TerrainViewpoint } from './types';
 
-// Camera reference set during update
+// Camera of the most recent TerrainLOD update, kept for the deprecated accessors
 let currentCamera: THREE.Camera | null = null;
 
 /**
- * Set the current camera for LOD calculations.
- * Called by TerrainLOD during update.
- * @internal
+ * Set the current camera.
+ * @deprecated LOD is driven by the viewpoints passed to `TerrainLOD.update()` or pinned
+ * with `TerrainLOD.setLODViewpoints()`; this value is only reported by `getCurrentCamera()`.
  */
 export function setCurrentCamera(camera: THREE.Camera | null): void {
   currentCamera = camera;
 }
 
 /**
- * Get the current camera.
- * @internal
+ * Get the camera of the most recent `TerrainLOD.update()`.
+ * @deprecated Use `TerrainLOD.getLODViewpoints()` or track the cameras passed to `update()`.
  */
 export function getCurrentCamera(): THREE.Camera | null {
   return currentCamera;
 }
 
+/**
+ * Node edges, in the same order as the 'instanceEdgeSkirt' attribute components.
+ */
+export const QuadtreeEdge = {
+  Left: 0,
+  Right: 1,
+  Bottom: 2,
+  Top: 3
+} as const;
+export type QuadtreeEdge = typeof QuadtreeEdge[keyof typeof QuadtreeEdge];
+
+function oppositeEdge(edge: QuadtreeEdge): QuadtreeEdge {
+  return (edge ^ 1) as QuadtreeEdge;
+}
+
+function touchesEdge(childIndex: number, edge: QuadtreeEdge): boolean {
+  switch (edge) {
+    case QuadtreeEdge.Left: return (childIndex & 1) === 0;
+    case QuadtreeEdge.Right: return (childIndex & 1) === 1;
+    case QuadtreeEdge.Bottom: return (childIndex & 2) === 0;
+    case QuadtreeEdge.Top: return (childIndex & 2) === 2;
+  }
+}
+
+/**
+ * Index of the child on the other side of an edge, mirrored across it.
+ */
+function mirrorChildIndex(childIndex: number, edge: QuadtreeEdge): number {
+  return edge === QuadtreeEdge.Left || edge === QuadtreeEdge.Right ? childIndex ^ 1 : childIndex ^ 2;
+}
+
+/** Scratch vector for viewpoint positions given as plain Vector3Like objects */
+const tempPosition = new THREE.Vector3();
+
 /**
  * Quadtree node for terrain LOD management.
- * Handles splitting, merging, and instance registration based on camera distance.
+ * Handles splitting, merging, and instance registration based on the LOD viewpoints.
  */
 export class QuadtreeNode {
   public children: QuadtreeNode[] = [];
   public instanceId: number = -1;
   public isLeaf: boolean = true;
+  /** World-space bounds of the node, using the height pyramid when available */
+  public readonly bounds: THREE.Box3 = new THREE.Box3();
+  /** Grid index of the node within its level */
+  public readonly gridX: number;
+  public readonly gridZ: number;
+  /** Index within the parent's children: bit 0 = +X half, bit 1 = +Z half */
+  public readonly childIndex: number;
+  /**
+   * Adjacent node across each edge with the same or larger size (null at the terrain border).
+   * Maintained on split/merge so lookups are O(1).
+   */
+  public readonly neighbors: Array<QuadtreeNode | null> = [null, null, null, null];
 
   constructor(
     public x: number,
     public z: number,
     public size: number,
     public level: number,
-    private terrain: TerrainLOD
-  ) {}
+    private terrain: TerrainLOD,
+    public readonly parent: QuadtreeNode | null = null
+  ) {
+    const halfWorld = terrain.getConfig().worldSize / 2;
+    this.gridX = Math.round((x + halfWorld) / size - 0.5);
+    this.gridZ = Math.round((z + halfWorld) / size - 0.5);
+    this.childIndex = (this.gridX & 1) | ((this.gridZ & 1) << 1);
+    this.updateBounds();
+  }
+
+  /**
+   * Get the adjacent node across an edge with the same or larger size.
+   * Returns null at the terrain border.
+   */
+  getNeighbor(edge: QuadtreeEdge): QuadtreeNode | null {
+    return this.neighbors[edge];
+  }
+
+  /**
+   * Level difference to the neighborhood across an edge: negative when the neighbor
+   * is coarser, positive for the deepest finer leaf along the edge, 0 otherwise.
+   */
+  getEdgeLevelDelta(edge: QuadtreeEdge): number {
+    const neighbor = this.neighbors[edge];
+    if (!neighbor) return 0;
+    if (neighbor.level < this.level) return neighbor.level - this.level;
+    return neighbor.getMaxLeafLevelAlongEdge(oppositeEdge(edge)) - this.level;
+  }
+
+  private getMaxLeafLevelAlongEdge(edge: QuadtreeEdge): number {
+    if (this.isLeaf) return this.level;
+
+    let maxLevel = this.level;
+    for (const child of this.children) {
+      if (touchesEdge(child.childIndex, edge)) {
+        maxLevel = Math.max(maxLevel, child.getMaxLeafLevelAlongEdge(edge));
+      }
+    }
+    return maxLevel;
+  }
+
+  private forEachLeafAlongEdge(edge: QuadtreeEdge, callback: (leaf: QuadtreeNode) => void): void {
+    if (this.isLeaf) {
+      callback(this);
+      return;
+    }
+    for (const child of this.children) {
+      if (touchesEdge(child.childIndex, edge)) {
+        child.forEachLeafAlongEdge(edge, callback);
+      }
+    }
+  }
+
+  /**
+   * Point this node and its descendants along an edge at the correct same-or-larger
+   * neighbor, given that `neighbor` is this node's neighbor across that edge.
+   */
+  private linkAlongEdge(edge: QuadtreeEdge, neighbor: QuadtreeNode | null): void {
+    this.neighbors[edge] = neighbor;
+    if (this.isLeaf) return;
+
+    for (const child of this.children) {
+      if (!touchesEdge(child.childIndex, edge)) continue;
+      const childNeighbor = neighbor && !neighbor.isLeaf && neighbor.level === this.level
+        ? neighbor.children[mirrorChildIndex(child.childIndex, edge)]
+        : neighbor;
+      child.linkAlongEdge(edge, childNeighbor);
+    }
+  }
+
+  /**
+   * Re-link same-size neighbors after this node split or merged and report every
+   * leaf whose edge levels may have changed.
+   */
+  private relinkNeighbors(): void {
+    for (let edge = 0; edge < 4; edge++) {
+      const neighbor = this.neighbors[edge];
+      if (!neighbor) continue;
+
+      const facingEdge = oppositeEdge(edge as QuadtreeEdge);
+      if (neighbor.level === this.level) {
+        neighbor.linkAlongEdge(facingEdge, this);
+      }
+      neighbor.forEachLeafAlongEdge(facingEdge, leaf => this.terrain.markEdgesDirty(leaf));
+    }
+  }
 
   /**
-   * Update the node based on camera distance.
-   * Splits or merges as needed.
+   * Force neighbor splits so adjacent leaves never differ by more than one level.
+   * Call on the root after update() when the balanced quadtree mode is enabled.
    */
-  update(): void {
-    const distance = this.getDistanceFromCamera();
+  balance(): void {
+    const queue: QuadtreeNode[] = [];
+    this.collectLeaves(queue);
+
+    while (queue.length > 0) {
+      const leaf = queue.pop()!;
+      if (!leaf.isLeaf) continue;
+
+      for (let edge = 0; edge < 4; edge++) {
+        const neighbor = leaf.getNeighbor(edge as QuadtreeEdge);
+        if (neighbor && neighbor.isLeaf && neighbor.level < leaf.level - 1) {
+          neighbor.split();
+          for (const child of neighbor.children) {
+            child.registerInstance();
+            queue.push(child);
+          }
+          // Re-check: the new neighbor may still be too coarse
+          queue.push(leaf);
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Append all leaf nodes under this node.
+   */
+  collectLeaves(out: QuadtreeNode[]): void {
+    if (this.isLeaf) {
+      out.push(this);
+      return;
+    }
+    this.children.forEach(child => child.collectLeaves(out));
+  }
+
+  /**
+   * Recompute bounds for this node and all descendants.
+   * Called by TerrainLOD when heights or max height change.
+   */
+  refreshBounds(): void {
+    this.updateBounds();
+    this.children.forEach(child => child.refreshBounds());
+  }
+
+  private updateBounds(): void {
+    const half = this.size * 0.5;
+    const range = this.terrain.getNodeHeightRange(this.level, this.gridX, this.gridZ);
+    this.bounds.min.set(this.x - half, range.min, this.z - half);
+    this.bounds.max.set(this.x + half, range.max, this.z + half);
+  }
+
+  /**
+   * Evaluate the node against the configured LOD metric, refining to the union of all
+   * viewpoints' needs. Splits and merges are not applied here: they are queued on the
+   * terrain, which applies them in priority order within its per-update budget.
+   * @param viewpoints - Cameras or world positions driving LOD selection
+   */
+  update(viewpoints: readonly TerrainViewpoint[] = []): void {
     const config = this.terrain.getConfig();
     const canSplit = this.level < config.levels - 1;
-    const splitDistance = this.size * config.lodDistanceRatio;
-    const mergeDistance = splitDistance * Math.max(1, config.lodHysteresis);
+    const refinement = this.getRefinementFactor(config, viewpoints);
+    const mergeThreshold = 1 / Math.max(1, config.lodHysteresis);
 
     if (this.isLeaf) {
-      if (canSplit && distance < splitDistance) {
-        this.split();
-        this.children.forEach(child => child.update());
-      } else if (this.instanceId === -1) {
-        this.registerInstance();
+      if (canSplit && refinement > 1) {
+        this.terrain.requestSplit(this, refinement);
+      } else {
+        this.activate(refinement);
       }
       return;
     }
 
-    if (distance > mergeDistance) {
-      this.merge();
-      if (this.instanceId === -1) this.registerInstance();
+    if (refinement < mergeThreshold && this.canMerge()) {
+      this.terrain.requestMerge(this, refinement);
     } else {
-      this.children.forEach(child => child.update());
+      this.children.forEach(child => child.update(viewpoints));
+    }
+  }
+
+  /**
+   * Keep this leaf drawn: register its instance if needed and refresh its geomorph factor.
+   * @internal Called by TerrainLOD for leaves that stay leaves this update
+   */
+  activate(refinement: number): void {
+    if (this.instanceId === -1) this.registerInstance();
+    this.updateMorph(refinement, this.terrain.getConfig());
+  }
+
+  /**
+   * Whether the children can be merged now without breaking the 2:1 balance.
+   */
+  canMerge(): boolean {
+    return !this.isLeaf && (!this.terrain.getConfig().balancedQuadtree || this.canMergeBalanced());
+  }
+
+  /**
+   * Whether merging keeps the 2:1 balance: a same-size neighbor must not have
+   * split children along the shared edge.
+   */
+  private canMergeBalanced(): boolean {
+    for (let edge = 0; edge < 4; edge++) {
+      const neighbor = this.getNeighbor(edge as QuadtreeEdge);
+      if (!neighbor || neighbor.isLeaf || neighbor.level !== this.level) continue;
+
+      for (const child of neighbor.children) {
+        if (!child.isLeaf && touchesEdge(child.childIndex, oppositeEdge(edge as QuadtreeEdge))) {
+          return false;
+        }
+      }
     }
+    return true;
   }
 
-  private split(): void {
+  /**
+   * Replace this leaf by four children. The children are not registered for drawing.
+   * @internal Called by TerrainLOD when applying queued splits
+   */
+  split(): void {
+    this.terrain._emitChunkTopologyChange('chunksplit', this);
     this.isLeaf = false;
     this.unregisterInstance();
 
@@ -76,17 +300,61 @@ export class QuadtreeNode {
     const nextLevel = this.level + 1;
 
     this.children = [
-      new QuadtreeNode(this.x - quarterOffset, this.z - quarterOffset, halfSize, nextLevel, this.terrain),
-      new QuadtreeNode(this.x + quarterOffset, this.z - quarterOffset, halfSize, nextLevel, this.terrain),
-      new QuadtreeNode(this.x - quarterOffset, this.z + quarterOffset, halfSize, nextLevel, this.terrain),
-      new QuadtreeNode(this.x + quarterOffset, this.z + quarterOffset, halfSize, nextLevel, this.terrain)
+      new QuadtreeNode(this.x - quarterOffset, this.z - quarterOffset, halfSize, nextLevel, this.terrain, this),
+      new QuadtreeNode(this.x + quarterOffset, this.z - quarterOffset, halfSize, nextLevel, this.terrain, this),
+      new QuadtreeNode(this.x - quarterOffset, this.z + quarterOffset, halfSize, nextLevel, this.terrain, this),
+      new QuadtreeNode(this.x + quarterOffset, this.z + quarterOffset, halfSize, nextLevel, this.terrain, this)
     ];
+
+    for (const child of this.children) {
+      for (let edge = 0; edge < 4; edge++) {
+        if (!touchesEdge(child.childIndex, edge as QuadtreeEdge)) {
+          // Interior edge: the sibling across it
+          child.neighbors[edge] = this.children[mirrorChildIndex(child.childIndex, edge as QuadtreeEdge)];
+          continue;
+        }
+        const outer = this.neighbors[edge];
+        child.neighbors[edge] = outer && !outer.isLeaf && outer.level === this.level
+          ? outer.children[mirrorChildIndex(child.childIndex, edge as QuadtreeEdge)]
+          : outer;
+      }
+    }
+
+    this.relinkNeighbors();
   }
 
-  private merge(): void {
+  /**
+   * Collapse the subtree back into this node. The node itself is not registered for drawing.
+   * @internal Called by TerrainLOD when applying queued merges
+   */
+  merge(): void {
     this.isLeaf = true;
     this.children.forEach(child => child.dispose());
     this.children = [];
+    this.relinkNeighbors();
+    this.terrain._emitChunkTopologyChange('chunkmerged', this);
+  }
+
+  /**
+   * Compute the geomorph factor from the node's position within its LOD band.
+   *
+   * In units of this node's split threshold, the parent splits at a normalized
+   * distance of ~2, so the node is created there and merges back beyond it.
+   * Odd vertices blend toward the parent grid over the last `morphRange` of the
+   * band, reaching the parent geometry exactly when the parent would take over.
+   */
+  private updateMorph(refinement: number, config: ResolvedTerrainConfig): void {
+    if (this.instanceId === -1) return;
+
+    let morph = 0;
+    if (this.level > 0 && config.morphRange > 0) {
+      const normalizedDistance = refinement > 0 ? 1 / refinement : Infinity;
+      const morphEnd = 2;
+      const morphStart = morphEnd * (1 - config.morphRange);
+      morph = Math.min(1, Math.max(0, (normalizedDistance - morphStart) / (morphEnd - morphStart)));
+    }
+
+    this.terrain.setInstanceMorph(this.instanceId, morph);
   }
 
   private registerInstance(): void {
@@ -98,8 +366,10 @@ export class QuadtreeNode {
       uvScale: uvTransform.scale,
       uvOffsetX: uvTransform.offsetX,
       uvOffsetY: uvTransform.offsetY,
-      level: this.level
+      level: this.level,
+      bounds: this.bounds
     });
+    this.terrain.markEdgesDirty(this);
   }
 
   private unregisterInstance(): void {
@@ -109,12 +379,56 @@ export class QuadtreeNode {
     }
   }
 
-  private getDistanceFromCamera(): number {
-    if (!currentCamera) return Infinity;
-    const cameraPos = currentCamera.position;
-    const dx = cameraPos.x - this.x;
-    const dz = cameraPos.z - this.z;
-    return Math.sqrt(dx * dx + dz * dz);
+  /**
+   * Ratio of the node's LOD metric to its split threshold, maximized over all viewpoints.
+   * Values above 1 request a split; values below 1 / lodHysteresis request a merge.
+   */
+  private getRefinementFactor(config: ResolvedTerrainConfig, viewpoints: readonly TerrainViewpoint[]): number {
+    let refinement = 0;
+    for (const viewpoint of viewpoints) {
+      refinement = Math.max(refinement, this.getViewpointRefinement(config, viewpoint));
+    }
+    return refinement;
+  }
+
+  private getViewpointRefinement(config: ResolvedTerrainConfig, viewpoint: TerrainViewpoint): number {
+    const camera = (viewpoint as THREE.Camera).isCamera ? viewpoint as THREE.Camera : null;
+
+    // Plain positions carry no projection, so they always use the distance metric.
+    if (camera && config.lodMode === 'screenSpaceError') {
+      return this.getScreenSpaceError(camera, config) / Math.max(1e-6, config.lodPixelTolerance);
+    }
+
+    const position = camera ? camera.position : viewpoint as THREE.Vector3Like;
+    return (this.size * config.lodDistanceRatio) / this.getDistanceFrom(position);
+  }
+
+  /**
+   * Projected geometric error of this node in pixels.
+   * The geometric error is the node's vertex spacing; the projection scale is taken
+   * from the camera projection matrix so both perspective and orthographic cameras
+   * (including zoom) are handled.
+   */
+  private getScreenSpaceError(camera: THREE.Camera, config: ResolvedTerrainConfig): number {
+    const geometricError = this.size / config.resolution;
+    const projection = camera.projectionMatrix.elements;
+    // projection[5] is 1 / tan(fov / 2) for perspective and 2 / viewHeight for orthographic cameras.
+    const pixelsPerUnit = projection[5] * config.viewportHeight * 0.5;
+
+    // Orthographic projections have no perspective divide (w row is 0, 0, 0, 1).
+    if (projection[11] === 0) {
+      return geometricError * pixelsPerUnit;
+    }
+
+    const distance = Math.max(1e-6, this.bounds.distanceToPoint(camera.position));
+    return (geometricError * pixelsPerUnit) / distance;
+  }
+
+  /**
+   * Distance to the node's height-aware bounds, so tall or flat chunks refine by their real extent.
+   */
+  private getDistanceFrom(position: THREE.Vector3Like): number {
+    return Math.max(1e-6, this.bounds.distanceToPoint(tempPosition.copy(position)));
   }
 
   /**
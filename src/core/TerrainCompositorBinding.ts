@@ -0,0 +1,110 @@
+import { DirtyRegionRect } from './types';
+import { HeightmapCompositor, HeightmapCompositorRenderer } from './HeightmapCompositor';
+import { CPUHeightmapCompositor } from './CPUHeightmapCompositor';
+import type { TerrainLOD } from './TerrainLOD';
+
+/**
+ * Configuration for TerrainCompositorBinding.
+ */
+export interface TerrainCompositorBindingConfig {
+  /** Evaluates collision heights for recomposed regions (default: created from the compositor) */
+  cpuCompositor?: CPUHeightmapCompositor;
+}
+
+/**
+ * Keeps a TerrainLOD in sync with a HeightmapCompositor.
+ *
+ * Each `update()` recomposes only the regions touched by brush edits, points the terrain
+ * at the compositor's output texture and forwards the CPU heights of those regions with
+ * the matching `DirtyRegionRect`, so only overlapping collision chunks are invalidated.
+ * Heights come from a CPUHeightmapCompositor, so no GPU readback stalls the frame.
+ *
+ * @example
+ * ```typescript
+ * const binding = new TerrainCompositorBinding(compositor, terrain);
+ *
+ * // In render loop
+ * binding.update(renderer);
+ * ```
+ */
+export class TerrainCompositorBinding {
+  private cpuCompositor: CPUHeightmapCompositor;
+  /** Composed heights in output texture order (row 0 = +Z edge) */
+  private compositorHeights: Float32Array | null = null;
+  /** Composed heights in terrain heightfield order (row 0 = -Z edge) */
+  private terrainHeights: Float32Array | null = null;
+  private isBound = false;
+
+  constructor(
+    private readonly compositor: HeightmapCompositor,
+    private readonly terrain: TerrainLOD,
+    config: TerrainCompositorBindingConfig = {}
+  ) {
+    this.cpuCompositor = config.cpuCompositor ?? CPUHeightmapCompositor.fromCompositor(compositor);
+  }
+
+  /**
+   * Recompose dirty regions and forward them to the terrain.
+   * @param renderer - Renderer matching the compositor's backend
+   * @param force - Recompose and forward everything
+   * @returns Forwarded regions in terrain heightfield texels; empty if nothing changed
+   */
+  update(renderer: HeightmapCompositorRenderer, force = false): DirtyRegionRect[] {
+    const firstUpdate = !this.isBound || this.terrain.getHeightMap() !== this.compositor.getOutputTexture();
+    const regions = this.compositor.compose(renderer, force || firstUpdate);
+    if (regions.length === 0) return [];
+
+    const { resolution, baseHeight } = this.compositor.getConfig();
+    const count = resolution * resolution;
+    if (this.compositorHeights?.length !== count) {
+      this.compositorHeights = new Float32Array(count);
+      this.terrainHeights = new Float32Array(count);
+    }
+    const compositorHeights = this.compositorHeights!;
+    const terrainHeights = this.terrainHeights!;
+
+    if (firstUpdate) {
+      this.terrain.setHeightMap(this.compositor.getOutputTexture(), false);
+      this.isBound = true;
+    }
+
+    const brushes = this.compositor.getAllBrushes();
+    this.cpuCompositor.setBaseHeight(baseHeight);
+
+    const terrainRegions: DirtyRegionRect[] = [];
+    for (const region of regions) {
+      this.cpuCompositor.compose(brushes, compositorHeights, region);
+
+      // Flip rows into heightfield order
+      for (let row = region.y; row < region.y + region.height; row++) {
+        const source = row * resolution + region.x;
+        const target = (resolution - 1 - row) * resolution + region.x;
+        terrainHeights.set(compositorHeights.subarray(source, source + region.width), target);
+      }
+      terrainRegions.push({
+        x: region.x,
+        y: resolution - region.y - region.height,
+        width: region.width,
+        height: region.height
+      });
+    }
+
+    if (firstUpdate) {
+      this.terrain.setRawHeightData(terrainHeights, resolution, resolution, true);
+    } else {
+      for (const region of terrainRegions) {
+        this.terrain.setRawHeightData(terrainHeights, resolution, resolution, true, region);
+      }
+    }
+    return terrainRegions;
+  }
+
+  /**
+   * Release the CPU height buffers; the terrain keeps its current heights.
+   */
+  dispose(): void {
+    this.compositorHeights = null;
+    this.terrainHeights = null;
+    this.isBound = false;
+  }
+}
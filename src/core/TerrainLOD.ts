@@ -2,23 +2,49 @@ import * as THREE from 'three';
 import {
   TerrainConfig,
   ResolvedTerrainConfig,
+  TerrainLODMode,
+  TerrainViewpoint,
+  TerrainSeamMode,
+  TerrainHeightFilter,
+  TerrainCanvasAdapter,
   TerrainMaterialProvider,
   TerrainMaterialContext,
   ChunkInstanceData,
+  TerrainChunkEvent,
+  TerrainLODEventMap,
+  TerrainIntersection,
+  TerrainShapeContact,
+  TerrainViewshed,
   ChunkCollisionData,
   ChunkCollisionCallback,
   CollisionResolution,
   DirtyRegionRect
 } from './types';
 import { InstancePool } from './InstancePool';
-import { QuadtreeNode, setCurrentCamera } from './QuadtreeNode';
+import { HeightPyramid } from './HeightPyramid';
+import { Heightfield, HeightfieldData } from './Heightfield';
+import { QuadtreeNode, QuadtreeEdge, setCurrentCamera } from './QuadtreeNode';
+import { BinaryHeap } from './BinaryHeap';
+import { CollisionStreamer } from './CollisionStreamer';
+import { HeightfieldQueries, HeightfieldHit } from './HeightfieldQueries';
+import { DOMCanvasAdapter } from './DOMCanvasAdapter';
 import { DefaultTerrainMaterial } from '../materials/DefaultTerrainMaterial';
+import { ProceduralTerrain } from '../utils/ProceduralTerrain';
+
+/**
+ * Split or merge queued by QuadtreeNode.update(), prioritized by its refinement factor.
+ */
+interface LODRequest {
+  node: QuadtreeNode;
+  refinement: number;
+}
 
 /**
  * High-performance LOD terrain system using instanced rendering and quadtree chunking.
  * 
  * Extends THREE.Group so it can be added to any scene.
- * Call `update(camera)` each frame for LOD calculations.
+ * Call `update(camera)` each frame for LOD calculations. Several viewpoints
+ * (split-screen, XR eyes, server-side players) can be passed at once.
  * 
  * @example
  * ```typescript
@@ -34,7 +60,7 @@ import { DefaultTerrainMaterial } from '../materials/DefaultTerrainMaterial';
  * terrain.update(camera);
  * ```
  */
-export class TerrainLOD extends THREE.Group {
+export class TerrainLOD extends THREE.Group<TerrainLODEventMap> {
   private config: ResolvedTerrainConfig;
   private root: QuadtreeNode | null = null;
   private instancedMesh: THREE.InstancedMesh | null = null;
@@ -49,10 +75,22 @@ export class TerrainLOD extends THREE.Group {
   private instancePool: InstancePool;
   private needsUpdate: boolean = false;
   private visibleInstanceIds: Set<number> = new Set();
+  private dirtyEdgeNodes: Set<QuadtreeNode> = new Set();
+  private pendingMerges: LODRequest[] = [];
+  private pendingSplits: BinaryHeap<LODRequest> = new BinaryHeap((a, b) => b.refinement - a.refinement);
+  private deferredLODChanges: number = 0;
+  private lodViewpointOverride: TerrainViewpoint[] | null = null;
 
   // Instance attribute arrays
   private instanceUVTransforms: Float32Array;
   private instanceEdgeSkirtMasks: Float32Array;
+  private instanceMorphFactors: Float32Array;
+  private morphNeedsUpdate: boolean = false;
+
+  // Stitched seam mode: one instanced mesh per coarser-neighbor edge combination
+  private stitchMeshes: THREE.InstancedMesh[] = [];
+  private instanceStitchMasks: Uint8Array;
+  private readonly stitchBatchCounts: Int32Array = new Int32Array(16);
   private readonly tempMatrix: THREE.Matrix4 = new THREE.Matrix4();
   private readonly tempPosition: THREE.Vector3 = new THREE.Vector3();
   private readonly tempScale: THREE.Vector3 = new THREE.Vector3();
@@ -60,7 +98,19 @@ export class TerrainLOD extends THREE.Group {
   private readonly hiddenMatrix: THREE.Matrix4 = new THREE.Matrix4().makeScale(0, 0, 0);
   private readonly frustum: THREE.Frustum = new THREE.Frustum();
   private readonly frustumProjectionMatrix: THREE.Matrix4 = new THREE.Matrix4();
-  private readonly chunkBoundsSphere: THREE.Sphere = new THREE.Sphere();
+  private readonly chunkBoundsBox: THREE.Box3 = new THREE.Box3();
+  private readonly tempNormal: THREE.Vector3 = new THREE.Vector3();
+  private readonly tempTriangle: THREE.Vector3[] = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  private readonly tempRay: THREE.Ray = new THREE.Ray();
+  private readonly tempInverseMatrix: THREE.Matrix4 = new THREE.Matrix4();
+  private readonly tempHit: HeightfieldHit = {
+    distance: 0,
+    point: new THREE.Vector3(),
+    normal: new THREE.Vector3(),
+    a: 0,
+    b: 0,
+    c: 0
+  };
 
   // Material provider
   private materialProvider: TerrainMaterialProvider;
@@ -71,13 +121,21 @@ export class TerrainLOD extends THREE.Group {
   private collisionCache: Map<string, ChunkCollisionData> = new Map();
   private collisionCallback: ChunkCollisionCallback | null = null;
   private collisionResolution: CollisionResolution = 32;
-  private heightmapImageData: ImageData | null = null;
+  private heightfield: Heightfield | null = null;
   private dirtyRegions: DirtyRegionRect[] = [];
   private dirtyCollisionKeys: Set<string> = new Set();
+  private heightPyramid: HeightPyramid;
+  private collisionStreamer: CollisionStreamer;
+  private collisionFocus: THREE.Vector3Like[] | null = null;
+  private heightfieldQueries: HeightfieldQueries;
 
   constructor(config: TerrainConfig = {}) {
     super();
     const maxChunks = config.maxChunks ?? 500;
+    const seamMode: TerrainSeamMode = config.seamMode ?? 'skirts';
+    const requestedResolution = config.resolution ?? 64;
+    // Stitch variants snap odd edge vertices to the coarser grid, so the grid must be even
+    const resolution = seamMode === 'stitch' ? Math.ceil(requestedResolution / 2) * 2 : requestedResolution;
 
     this.config = {
       heightMapUrl: config.heightMapUrl || '',
@@ -87,20 +145,45 @@ export class TerrainLOD extends THREE.Group {
       levels: config.levels ?? 6,
       lodDistanceRatio: config.lodDistanceRatio ?? 2.0,
       lodHysteresis: Math.max(1, config.lodHysteresis ?? 1.2),
-      resolution: config.resolution ?? 64,
+      lodSplitBudget: Math.max(1, config.lodSplitBudget ?? Infinity),
+      lodMergeBudget: Math.max(1, config.lodMergeBudget ?? Infinity),
+      lodTimeBudget: Math.max(0, config.lodTimeBudget ?? Infinity),
+      lodMode: config.lodMode ?? 'distance',
+      lodPixelTolerance: Math.max(0.1, config.lodPixelTolerance ?? 8),
+      viewportHeight: Math.max(1, config.viewportHeight ?? 1080),
+      morphRange: Math.min(1, Math.max(0, config.morphRange ?? 0.3)),
+      // Stitching relies on neighbors differing by at most one level
+      balancedQuadtree: seamMode === 'stitch' || (config.balancedQuadtree ?? false),
+      seamMode,
+      resolution,
       wireframe: config.wireframe ?? false,
       showChunkBorders: config.showChunkBorders ?? false,
-      skirtDepth: config.skirtDepth ?? 1.0,
-      skirtWidth: config.skirtWidth ?? (1 / (config.resolution ?? 64)),
+      skirtDepth: seamMode === 'stitch' ? 0 : (config.skirtDepth ?? 1.0),
+      skirtWidth: config.skirtWidth ?? (1 / resolution),
       normalStrength: Math.max(0, config.normalStrength ?? 1.0),
       heightSmoothing: Math.min(1, Math.max(0, config.heightSmoothing ?? 0.0)),
       heightSmoothingSpread: Math.max(0.25, config.heightSmoothingSpread ?? 1.5),
+      heightQueryFilter: config.heightQueryFilter ?? 'bilinear',
+      // Default: the focus cell plus its immediate neighbors
+      collisionStreamRadius: Math.max(0, config.collisionStreamRadius
+        ?? 1.5 * (config.worldSize ?? 2048) / Math.pow(2, Math.max(0, (config.levels ?? 6) - 1))),
+      proceduralTerrain: config.proceduralTerrain ?? {},
+      headless: config.headless ?? false,
+      canvasAdapter: config.canvasAdapter !== undefined
+        ? config.canvasAdapter
+        : (DOMCanvasAdapter.isSupported() ? new DOMCanvasAdapter() : null),
       maxChunks
     };
 
     this.instancePool = new InstancePool(maxChunks);
     this.instanceUVTransforms = new Float32Array(maxChunks * 3);
     this.instanceEdgeSkirtMasks = new Float32Array(maxChunks * 4);
+    this.instanceMorphFactors = new Float32Array(maxChunks);
+    this.instanceStitchMasks = new Uint8Array(maxChunks);
+
+    this.heightPyramid = new HeightPyramid(Math.max(1, this.config.levels));
+    this.collisionStreamer = new CollisionStreamer(this);
+    this.heightfieldQueries = new HeightfieldQueries(this);
 
     // Create default material provider
     this.defaultMaterialProvider = new DefaultTerrainMaterial();
@@ -126,9 +209,16 @@ export class TerrainLOD extends THREE.Group {
     this.initPromise = (async () => {
       try {
         await this.loadTextures();
-        this.createSharedGeometry();
-        this.createMaterial();
-        this.createInstancedMesh();
+        this._extractHeightfield();
+        // Headless terrains keep only the CPU side (quadtree, heights, collision)
+        if (!this.config.headless) {
+          this.createSharedGeometry();
+          this.createMaterial();
+          this.createInstancedMesh();
+          if (this.config.seamMode === 'stitch') {
+            this.createStitchMeshes();
+          }
+        }
 
         this.root = new QuadtreeNode(0, 0, this.config.worldSize, 0, this);
         this.root.update();
@@ -145,10 +235,8 @@ export class TerrainLOD extends THREE.Group {
   }
 
   private async loadTextures(): Promise<void> {
-    const loader = new THREE.TextureLoader();
-
     if (this.config.heightMapUrl) {
-      this.heightMap = await loader.loadAsync(this.config.heightMapUrl);
+      this.heightMap = await this._loadTexture(this.config.heightMapUrl);
       this.proceduralHeightMap = null;
     } else {
       this.heightMap = this.generateProceduralHeightmap();
@@ -156,10 +244,13 @@ export class TerrainLOD extends THREE.Group {
     }
     this.heightMap.wrapS = this.heightMap.wrapT = THREE.ClampToEdgeWrapping;
     this.heightMap.magFilter = THREE.LinearFilter;
-    this.heightMap.minFilter = THREE.LinearMipMapLinearFilter;
+    this.heightMap.minFilter = this.heightMap.generateMipmaps ? THREE.LinearMipMapLinearFilter : THREE.LinearFilter;
+
+    // Nothing samples the diffuse texture without a material
+    if (this.config.headless) return;
 
     if (this.config.textureUrl) {
-      this.diffuseTexture = await loader.loadAsync(this.config.textureUrl);
+      this.diffuseTexture = await this._loadTexture(this.config.textureUrl);
       this.proceduralDiffuseTexture = null;
     } else {
       this.diffuseTexture = this.generateProceduralDiffuse();
@@ -170,81 +261,46 @@ export class TerrainLOD extends THREE.Group {
     this.diffuseTexture.anisotropy = 16;
   }
 
+  /**
+   * Seeded noise terrain used when no heightmap URL is given (see `proceduralTerrain`).
+   * Half floats keep more precision than 8-bit images and filter on all backends.
+   */
   private generateProceduralHeightmap(): THREE.Texture {
-    const size = 2048;
-    const canvas = document.createElement('canvas');
-    canvas.width = size;
-    canvas.height = size;
-    const ctx = canvas.getContext('2d')!;
-
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, size, size);
-
-    const numCircles = 600;
-    for (let i = 0; i < numCircles; i++) {
-      const x = Math.random() * size;
-      const y = Math.random() * size;
-      const radius = Math.random() * 100 + 50;
-      const opacity = Math.random() * 0.1;
-
-      const grad = ctx.createRadialGradient(x, y, 0, x, y, radius);
-      grad.addColorStop(0, `rgba(255, 255, 255, ${opacity})`);
-      grad.addColorStop(1, 'rgba(0, 0, 0, 0)');
-
-      ctx.fillStyle = grad;
-      ctx.beginPath();
-      ctx.arc(x, y, radius, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    const centerGrad = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2);
-    centerGrad.addColorStop(0, 'rgba(255, 255, 255, 0.5)');
-    centerGrad.addColorStop(1, 'rgba(0, 0, 0, 0)');
-    ctx.fillStyle = centerGrad;
-    ctx.fillRect(0, 0, size, size);
-
-    return new THREE.CanvasTexture(canvas);
+    const generator = new ProceduralTerrain({ warpStrength: 0.2, ...this.config.proceduralTerrain });
+    return generator.createTexture(generator.generate(), THREE.HalfFloatType);
   }
 
+  /**
+   * Grass-colored grid with per-pixel noise, generated on the CPU.
+   */
   private generateProceduralDiffuse(): THREE.Texture {
     const size = 1024;
-    const canvas = document.createElement('canvas');
-    canvas.width = size;
-    canvas.height = size;
-    const ctx = canvas.getContext('2d')!;
-
-    ctx.fillStyle = '#2d4c1e';
-    ctx.fillRect(0, 0, size, size);
-
-    ctx.strokeStyle = '#3e6b29';
-    ctx.lineWidth = 2;
     const gridSteps = 32;
     const step = size / gridSteps;
-
-    for (let i = 0; i <= size; i += step) {
-      ctx.beginPath();
-      ctx.moveTo(i, 0);
-      ctx.lineTo(i, size);
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.moveTo(0, i);
-      ctx.lineTo(size, i);
-      ctx.stroke();
-    }
-
-    const imageData = ctx.getImageData(0, 0, size, size);
-    const data = imageData.data;
-    for (let i = 0; i < data.length; i += 4) {
-      if (Math.random() > 0.5) {
-        const val = (Math.random() - 0.5) * 20;
-        data[i] = Math.max(0, Math.min(255, data[i] + val));
-        data[i + 1] = Math.max(0, Math.min(255, data[i + 1] + val));
-        data[i + 2] = Math.max(0, Math.min(255, data[i + 2] + val));
+    const base = [0x2d, 0x4c, 0x1e];
+    const line = [0x3e, 0x6b, 0x29];
+    const data = new Uint8Array(size * size * 4);
+
+    for (let py = 0; py < size; py++) {
+      for (let px = 0; px < size; px++) {
+        // 2px lines centred on every grid step
+        const onLine = px % step === 0 || px % step === step - 1 || py % step === 0 || py % step === step - 1;
+        const color = onLine ? line : base;
+        const noise = Math.random() > 0.5 ? (Math.random() - 0.5) * 20 : 0;
+        const offset = (py * size + px) * 4;
+        data[offset] = Math.max(0, Math.min(255, color[0] + noise));
+        data[offset + 1] = Math.max(0, Math.min(255, color[1] + noise));
+        data[offset + 2] = Math.max(0, Math.min(255, color[2] + noise));
+        data[offset + 3] = 255;
       }
     }
-    ctx.putImageData(imageData, 0, 0);
 
-    return new THREE.CanvasTexture(canvas);
+    const texture = new THREE.DataTexture(data, size, size, THREE.RGBAFormat, THREE.UnsignedByteType);
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearMipMapLinearFilter;
+    texture.generateMipmaps = true;
+    texture.needsUpdate = true;
+    return texture;
   }
 
   private createSharedGeometry(): void {
@@ -265,7 +321,8 @@ export class TerrainLOD extends THREE.Group {
       skirtWidth: this.config.skirtWidth,
       normalStrength: this.config.normalStrength,
       heightSmoothing: this.config.heightSmoothing,
-      heightSmoothingSpread: this.config.heightSmoothingSpread
+      heightSmoothingSpread: this.config.heightSmoothingSpread,
+      seamMode: this.config.seamMode
     };
 
     this.currentMaterial = this.materialProvider.createMaterial(context);
@@ -290,13 +347,140 @@ export class TerrainLOD extends THREE.Group {
     edgeSkirtAttr.setUsage(THREE.DynamicDrawUsage);
     this.instancedMesh.geometry.setAttribute('instanceEdgeSkirt', edgeSkirtAttr);
 
+    const morphAttr = new THREE.InstancedBufferAttribute(this.instanceMorphFactors, 1);
+    morphAttr.setUsage(THREE.DynamicDrawUsage);
+    this.instancedMesh.geometry.setAttribute('instanceMorph', morphAttr);
+
     this.instancedMesh.count = 0;
     // Keep mesh-level culling disabled; per-chunk visibility is handled manually.
     this.instancedMesh.frustumCulled = false;
+    // Chunk meshes are flat until displaced in the shader; TerrainLOD.raycast() handles picking
+    this.instancedMesh.raycast = () => {};
 
     this.add(this.instancedMesh);
   }
 
+  /**
+   * Create the 16 stitched index variants (one per combination of coarser-neighbor edges).
+   * Variants share vertex data with the base geometry; each gets its own compact instance
+   * buffers that are refilled from the main instance arrays every frame.
+   * The main instanced mesh keeps per-chunk bookkeeping but is not rendered.
+   */
+  private createStitchMeshes(): void {
+    const base = this.sharedGeometry!;
+    const maxChunks = this.config.maxChunks;
+
+    for (let mask = 0; mask < 16; mask++) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', base.getAttribute('position'));
+      geometry.setAttribute('normal', base.getAttribute('normal'));
+      geometry.setAttribute('uv', base.getAttribute('uv'));
+      geometry.setIndex(this.createStitchedIndex(mask));
+
+      const attributes: Array<[string, number]> = [
+        ['instanceUVTransform', 3],
+        ['instanceEdgeSkirt', 4],
+        ['instanceMorph', 1]
+      ];
+      for (const [name, itemSize] of attributes) {
+        const attr = new THREE.InstancedBufferAttribute(new Float32Array(maxChunks * itemSize), itemSize);
+        attr.setUsage(THREE.DynamicDrawUsage);
+        geometry.setAttribute(name, attr);
+      }
+
+      const mesh = new THREE.InstancedMesh(geometry, this.currentMaterial!, maxChunks);
+      mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+      mesh.count = 0;
+      mesh.frustumCulled = false;
+      mesh.raycast = () => {};
+      this.stitchMeshes.push(mesh);
+      this.add(mesh);
+    }
+
+    this.instancedMesh!.visible = false;
+  }
+
+  /**
+   * Build a grid index where odd vertices on the masked edges collapse onto the
+   * previous even vertex, matching the edge of a neighbor one level coarser.
+   * Mask bits follow QuadtreeEdge (bit 0 = left, 1 = right, 2 = bottom, 3 = top).
+   */
+  private createStitchedIndex(mask: number): number[] {
+    const resolution = this.config.resolution;
+    const indices: number[] = [];
+    const vertex = (ix: number, iy: number): number => this.getStitchedVertexIndex(mask, ix, iy);
+
+    const pushTriangle = (a: number, b: number, c: number): void => {
+      if (a !== b && b !== c && a !== c) {
+        indices.push(a, b, c);
+      }
+    };
+
+    // Same triangulation as THREE.PlaneGeometry
+    for (let iy = 0; iy < resolution; iy++) {
+      for (let ix = 0; ix < resolution; ix++) {
+        const a = vertex(ix, iy);
+        const b = vertex(ix, iy + 1);
+        const c = vertex(ix + 1, iy + 1);
+        const d = vertex(ix + 1, iy);
+        pushTriangle(a, b, d);
+        pushTriangle(b, c, d);
+      }
+    }
+
+    return indices;
+  }
+
+  /**
+   * Index of grid vertex (ix, iy) after collapsing odd vertices on the masked edges.
+   */
+  private getStitchedVertexIndex(mask: number, ix: number, iy: number): number {
+    const resolution = this.config.resolution;
+    if ((ix === 0 && (mask & (1 << QuadtreeEdge.Left))) || (ix === resolution && (mask & (1 << QuadtreeEdge.Right)))) {
+      iy -= iy % 2;
+    }
+    if ((iy === 0 && (mask & (1 << QuadtreeEdge.Bottom))) || (iy === resolution && (mask & (1 << QuadtreeEdge.Top)))) {
+      ix -= ix % 2;
+    }
+    return iy * (resolution + 1) + ix;
+  }
+
+  /**
+   * Route every visible chunk into the instanced mesh of its stitch variant.
+   */
+  private updateStitchBatches(): void {
+    if (!this.instancedMesh) return;
+
+    const counts = this.stitchBatchCounts;
+    counts.fill(0);
+    const sourceMatrices = this.instancedMesh.instanceMatrix.array;
+
+    for (const id of this.visibleInstanceIds) {
+      const mask = this.instanceStitchMasks[id];
+      const mesh = this.stitchMeshes[mask];
+      const slot = counts[mask]++;
+      const geometry = mesh.geometry;
+
+      mesh.instanceMatrix.array.set(sourceMatrices.subarray(id * 16, id * 16 + 16), slot * 16);
+      (geometry.getAttribute('instanceUVTransform').array as Float32Array)
+        .set(this.instanceUVTransforms.subarray(id * 3, id * 3 + 3), slot * 3);
+      (geometry.getAttribute('instanceEdgeSkirt').array as Float32Array)
+        .set(this.instanceEdgeSkirtMasks.subarray(id * 4, id * 4 + 4), slot * 4);
+      (geometry.getAttribute('instanceMorph').array as Float32Array)[slot] = this.instanceMorphFactors[id];
+    }
+
+    for (let mask = 0; mask < this.stitchMeshes.length; mask++) {
+      const mesh = this.stitchMeshes[mask];
+      mesh.count = counts[mask];
+      if (counts[mask] === 0) continue;
+
+      mesh.instanceMatrix.needsUpdate = true;
+      for (const name of ['instanceUVTransform', 'instanceEdgeSkirt', 'instanceMorph']) {
+        (mesh.geometry.getAttribute(name) as THREE.InstancedBufferAttribute).needsUpdate = true;
+      }
+    }
+  }
+
   // ============================================
   // Instance Management
   // ============================================
@@ -305,31 +489,36 @@ export class TerrainLOD extends THREE.Group {
     this.tempPosition.set(data.x, 0, data.z);
     this.tempScale.set(data.size, 1, data.size);
     this.tempMatrix.compose(this.tempPosition, this.tempQuaternion, this.tempScale);
-    this.instancedMesh!.setMatrixAt(id, this.tempMatrix);
+    this.instancedMesh?.setMatrixAt(id, this.tempMatrix);
   }
 
   private hideChunkMatrix(id: number): void {
-    this.instancedMesh!.setMatrixAt(id, this.hiddenMatrix);
+    this.instancedMesh?.setMatrixAt(id, this.hiddenMatrix);
   }
 
   private isChunkVisible(chunk: ChunkInstanceData): boolean {
     const halfSize = chunk.size * 0.5;
-    const verticalHalfExtent = this.config.maxHeight * 0.5 + this.config.skirtDepth;
-    this.chunkBoundsSphere.center.set(chunk.x, this.config.maxHeight * 0.5, chunk.z);
-    this.chunkBoundsSphere.radius = Math.sqrt((halfSize * halfSize * 2) + (verticalHalfExtent * verticalHalfExtent));
-    return this.frustum.intersectsSphere(this.chunkBoundsSphere);
+    if (chunk.bounds) {
+      this.chunkBoundsBox.copy(chunk.bounds);
+    } else {
+      this.chunkBoundsBox.min.set(chunk.x - halfSize, 0, chunk.z - halfSize);
+      this.chunkBoundsBox.max.set(chunk.x + halfSize, this.config.maxHeight, chunk.z + halfSize);
+    }
+    // Skirts can push border vertices below the surface.
+    this.chunkBoundsBox.min.y -= this.config.skirtDepth;
+    return this.frustum.intersectsBox(this.chunkBoundsBox);
   }
 
-  private updateFrustumVisibility(camera: THREE.Camera): void {
-    if (!this.instancedMesh) return;
-
-    this.frustumProjectionMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
-    this.frustum.setFromProjectionMatrix(this.frustumProjectionMatrix);
+  private updateFrustumVisibility(camera: THREE.Camera | null): void {
+    if (camera) {
+      this.frustumProjectionMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+      this.frustum.setFromProjectionMatrix(this.frustumProjectionMatrix);
+    }
 
     const entries = this.instancePool.getActiveEntries();
     if (entries.length === 0) {
       this.visibleInstanceIds.clear();
-      if (this.instancedMesh.count !== 0) {
+      if (this.instancedMesh && this.instancedMesh.count !== 0) {
         this.instancedMesh.count = 0;
       }
       return;
@@ -340,7 +529,8 @@ export class TerrainLOD extends THREE.Group {
     let matrixChanged = false;
 
     for (const [id, chunk] of entries) {
-      const visible = this.isChunkVisible(chunk);
+      // Without a culling camera every chunk is considered visible.
+      const visible = camera ? this.isChunkVisible(chunk) : true;
       const wasVisible = this.visibleInstanceIds.has(id);
 
       if (visible) {
@@ -350,15 +540,22 @@ export class TerrainLOD extends THREE.Group {
           matrixChanged = true;
         }
         this.visibleInstanceIds.add(id);
+        if (!wasVisible) {
+          this.dispatchEvent({ type: 'chunkvisible', ...this._createChunkEvent(id, chunk) });
+        }
       } else {
         if (wasVisible || forceMatrixRefresh) {
           this.hideChunkMatrix(id);
           matrixChanged = true;
         }
         this.visibleInstanceIds.delete(id);
+        if (wasVisible) {
+          this.dispatchEvent({ type: 'chunkhidden', ...this._createChunkEvent(id, chunk) });
+        }
       }
     }
 
+    if (!this.instancedMesh) return;
     if (this.instancedMesh.count !== highestVisibleId + 1) {
       this.instancedMesh.count = highestVisibleId + 1;
     }
@@ -392,7 +589,10 @@ export class TerrainLOD extends THREE.Group {
     this.instanceEdgeSkirtMasks[edgeOffset + 2] = 0;
     this.instanceEdgeSkirtMasks[edgeOffset + 3] = 0;
 
+    this.instanceMorphFactors[id] = 0;
+
     this.needsUpdate = true;
+    this.dispatchEvent({ type: 'chunkadded', ...this._createChunkEvent(id, data) });
     return id;
   }
 
@@ -403,11 +603,15 @@ export class TerrainLOD extends THREE.Group {
   public removeInstance(id: number): void {
     if (id === -1) return;
 
+    const data = this.instancePool.getData(id);
+    const event = data ? this._createChunkEvent(id, data) : null;
     this.instancePool.release(id);
 
     // Hide instance by setting scale to 0
     this.hideChunkMatrix(id);
-    this.visibleInstanceIds.delete(id);
+    if (this.visibleInstanceIds.delete(id) && event) {
+      this.dispatchEvent({ type: 'chunkhidden', ...event });
+    }
 
     const edgeOffset = id * 4;
     this.instanceEdgeSkirtMasks[edgeOffset] = 0;
@@ -415,7 +619,91 @@ export class TerrainLOD extends THREE.Group {
     this.instanceEdgeSkirtMasks[edgeOffset + 2] = 0;
     this.instanceEdgeSkirtMasks[edgeOffset + 3] = 0;
 
+    this.instanceMorphFactors[id] = 0;
+
     this.needsUpdate = true;
+    if (event) {
+      this.dispatchEvent({ type: 'chunkremoved', ...event });
+    }
+  }
+
+  /**
+   * Queue a leaf split for this update.
+   * @internal Called by QuadtreeNode
+   */
+  public requestSplit(node: QuadtreeNode, refinement: number): void {
+    this.pendingSplits.push({ node, refinement });
+  }
+
+  /**
+   * Queue a subtree merge for this update.
+   * @internal Called by QuadtreeNode
+   */
+  public requestMerge(node: QuadtreeNode, refinement: number): void {
+    this.pendingMerges.push({ node, refinement });
+  }
+
+  /**
+   * Apply queued merges and splits within the configured budgets.
+   *
+   * Merges go first (they free instances for the splits) starting with the least needed;
+   * splits go from the highest refinement factor down, and the children of each split are
+   * evaluated right away so their own splits compete in the same queue. At least one change
+   * is applied per update so refinement always converges. Deferred splits keep drawing the
+   * coarse node and deferred merges keep their subtree, so the terrain stays complete.
+   */
+  private applyLODRequests(viewpoints: readonly TerrainViewpoint[]): void {
+    const { lodSplitBudget, lodMergeBudget, lodTimeBudget } = this.config;
+    const startTime = performance.now();
+    let changes = 0;
+    const hasTime = () => changes === 0 || performance.now() - startTime < lodTimeBudget;
+
+    this.pendingMerges.sort((a, b) => a.refinement - b.refinement);
+    let merges = 0;
+    let deferred = 0;
+    for (const { node, refinement } of this.pendingMerges) {
+      if (!node.canMerge()) continue;
+      if (merges >= lodMergeBudget || !hasTime()) {
+        deferred++;
+        continue;
+      }
+      node.merge();
+      node.activate(refinement);
+      merges++;
+      changes++;
+    }
+    this.pendingMerges.length = 0;
+
+    let splits = 0;
+    while (this.pendingSplits.size > 0 && splits < lodSplitBudget && hasTime()) {
+      const { node } = this.pendingSplits.pop()!;
+      if (!node.isLeaf) continue;
+      node.split();
+      node.children.forEach(child => child.update(viewpoints));
+      splits++;
+      changes++;
+    }
+
+    while (this.pendingSplits.size > 0) {
+      const { node, refinement } = this.pendingSplits.pop()!;
+      if (!node.isLeaf) continue;
+      node.activate(refinement);
+      deferred++;
+    }
+
+    this.deferredLODChanges = deferred;
+  }
+
+  /**
+   * Set the geomorph factor of a chunk instance.
+   * @internal Called by QuadtreeNode
+   */
+  public setInstanceMorph(id: number, morph: number): void {
+    if (id === -1) return;
+    if (Math.abs(this.instanceMorphFactors[id] - morph) > 1e-4) {
+      this.instanceMorphFactors[id] = morph;
+      this.morphNeedsUpdate = true;
+    }
   }
 
   // ============================================
@@ -423,35 +711,100 @@ export class TerrainLOD extends THREE.Group {
   // ============================================
 
   /**
-   * Update the terrain LOD based on camera position.
+   * Update the terrain LOD based on one or more viewpoints.
    * Call this every frame in your render loop.
-   * @param camera - The camera to use for LOD calculations
+   *
+   * The quadtree refines to the union of all viewpoints' needs. Frustum culling uses
+   * `cullingCamera`, or the first camera among the viewpoints when omitted; if there is
+   * no camera at all, every chunk is kept visible. When a collision callback is set,
+   * LOD0 collision cells are streamed around the collision focus points (the LOD
+   * viewpoints unless set with `setCollisionFocus()`).
+   *
+   * @param viewpoints - Camera, world position, or an array of them
+   * @param cullingCamera - Camera used for frustum culling
    */
-  public update(camera: THREE.Camera): void {
-    if (this.isInitialized && this.root && this.instancedMesh) {
+  public update(viewpoints: TerrainViewpoint | TerrainViewpoint[], cullingCamera?: THREE.Camera): void {
+    const viewpointList = Array.isArray(viewpoints) ? viewpoints : [viewpoints];
+    const lodViewpoints = this.lodViewpointOverride ?? viewpointList;
+
+    if (this.isInitialized && this.root) {
+      const camera = cullingCamera
+        ?? (viewpointList.find(viewpoint => (viewpoint as THREE.Camera).isCamera) as THREE.Camera | undefined)
+        ?? null;
       setCurrentCamera(camera);
-      this.root.update();
-      this.updateFrustumVisibility(camera);
 
-      if (this.needsUpdate) {
-        this.updateEdgeSkirtMasks();
+      // Requests are rebuilt from this update's viewpoints and drained by applyLODRequests()
+      this.pendingSplits.clear();
+      this.pendingMerges.length = 0;
+      this.root.update(lodViewpoints);
+      this.applyLODRequests(lodViewpoints);
+      // Balance splits are exempt from the budget: they keep seams crack-free
+      if (this.config.balancedQuadtree) {
+        this.root.balance();
+      }
+      this.updateFrustumVisibility(camera);
 
-        this.instancedMesh.instanceMatrix.needsUpdate = true;
-        const uvAttr = this.instancedMesh.geometry.getAttribute('instanceUVTransform');
-        if (uvAttr) {
-          (uvAttr as THREE.InstancedBufferAttribute).needsUpdate = true;
+      if ((this.morphNeedsUpdate || this.needsUpdate) && this.instancedMesh) {
+        const morphAttr = this.instancedMesh.geometry.getAttribute('instanceMorph');
+        if (morphAttr) {
+          (morphAttr as THREE.InstancedBufferAttribute).needsUpdate = true;
         }
+      }
+      this.morphNeedsUpdate = false;
 
-        const edgeAttr = this.instancedMesh.geometry.getAttribute('instanceEdgeSkirt');
-        if (edgeAttr) {
-          (edgeAttr as THREE.InstancedBufferAttribute).needsUpdate = true;
+      if (this.needsUpdate) {
+        this.updateDirtyEdges();
+
+        if (this.instancedMesh) {
+          this.instancedMesh.instanceMatrix.needsUpdate = true;
+          const uvAttr = this.instancedMesh.geometry.getAttribute('instanceUVTransform');
+          if (uvAttr) {
+            (uvAttr as THREE.InstancedBufferAttribute).needsUpdate = true;
+          }
+
+          const edgeAttr = this.instancedMesh.geometry.getAttribute('instanceEdgeSkirt');
+          if (edgeAttr) {
+            (edgeAttr as THREE.InstancedBufferAttribute).needsUpdate = true;
+          }
         }
 
         this.needsUpdate = false;
       }
+
+      if (this.stitchMeshes.length > 0) {
+        this.updateStitchBatches();
+      }
+    }
+
+    if (this.collisionCallback) {
+      this.collisionStreamer.update(this.collisionFocus ?? lodViewpoints.map(viewpoint =>
+        (viewpoint as THREE.Camera).isCamera ? (viewpoint as THREE.Camera).position : viewpoint as THREE.Vector3Like
+      ));
     }
   }
 
+  /**
+   * Pin LOD selection to fixed viewpoints, independent of the cameras passed to `update()`.
+   * While set, `update()` viewpoints only drive frustum culling, which lets you freeze
+   * LOD and fly a debug camera around it. Pass a cloned camera or copied position to
+   * freeze; pass a live camera to drive LOD from a different camera than culling.
+   * @param viewpoints - LOD viewpoints, or null to use the `update()` viewpoints again
+   */
+  public setLODViewpoints(viewpoints: TerrainViewpoint | TerrainViewpoint[] | null): void {
+    if (viewpoints === null) {
+      this.lodViewpointOverride = null;
+      return;
+    }
+    this.lodViewpointOverride = Array.isArray(viewpoints) ? [...viewpoints] : [viewpoints];
+  }
+
+  /**
+   * Get the pinned LOD viewpoints, or null if LOD follows `update()`.
+   */
+  public getLODViewpoints(): TerrainViewpoint[] | null {
+    return this.lodViewpointOverride ? [...this.lodViewpointOverride] : null;
+  }
+
   /**
    * Set a custom material provider.
    * The provider will be used to create the terrain material.
@@ -512,116 +865,46 @@ export class TerrainLOD extends THREE.Group {
     return this.instancedMesh?.geometry.getAttribute('instanceEdgeSkirt') as THREE.InstancedBufferAttribute | null;
   }
 
-  private updateEdgeSkirtMasks(): void {
-    const entries = this.instancePool.getActiveEntries();
-    if (entries.length === 0) return;
-
-    const epsilon = 1e-4;
-    const edgeSamples = [0.1, 0.3, 0.5, 0.7, 0.9];
-    const maxLevel = this.config.levels - 1;
-    const halfWorld = this.config.worldSize * 0.5;
-    const levelChunkMaps = new Map<number, Map<string, [number, ChunkInstanceData]>>();
-
-    const toGridKey = (x: number, z: number, level: number): string => {
-      const divisions = Math.pow(2, level);
-      const cellSize = this.config.worldSize / divisions;
-      const normalizedX = (x + halfWorld) / cellSize;
-      const normalizedZ = (z + halfWorld) / cellSize;
-      const ix = Math.min(divisions - 1, Math.max(0, Math.floor(normalizedX)));
-      const iz = Math.min(divisions - 1, Math.max(0, Math.floor(normalizedZ)));
-      return `${ix},${iz}`;
-    };
-
-    for (const [id, chunk] of entries) {
-      const level = Math.max(0, Math.min(maxLevel, chunk.level ?? 0));
-      let mapForLevel = levelChunkMaps.get(level);
-      if (!mapForLevel) {
-        mapForLevel = new Map<string, [number, ChunkInstanceData]>();
-        levelChunkMaps.set(level, mapForLevel);
-      }
-      mapForLevel.set(toGridKey(chunk.x, chunk.z, level), [id, chunk]);
-    }
-
-    const findNeighborLevelAt = (x: number, z: number, selfId: number): number | null => {
-      const sampleX = Math.min(halfWorld - epsilon, Math.max(-halfWorld + epsilon, x));
-      const sampleZ = Math.min(halfWorld - epsilon, Math.max(-halfWorld + epsilon, z));
-
-      for (let level = maxLevel; level >= 0; level--) {
-        const mapForLevel = levelChunkMaps.get(level);
-        if (!mapForLevel) continue;
-        const hit = mapForLevel.get(toGridKey(sampleX, sampleZ, level));
-        if (hit && hit[0] !== selfId) {
-          return hit[1].level ?? 0;
-        }
-      }
-
-      return null;
-    };
-
-    const findMaxNeighborLevelOnEdge = (
-      x0: number,
-      z0: number,
-      x1: number,
-      z1: number,
-      selfId: number
-    ): number | null => {
-      let maxLevel: number | null = null;
-
-      for (const t of edgeSamples) {
-        const x = x0 + (x1 - x0) * t;
-        const z = z0 + (z1 - z0) * t;
-        const level = findNeighborLevelAt(x, z, selfId);
-        if (level !== null) {
-          maxLevel = maxLevel === null ? level : Math.max(maxLevel, level);
-        }
-      }
+  /**
+   * Get the geomorph attribute for custom shaders.
+   * Format: float per instance (0 = own grid, 1 = odd vertices on the parent grid).
+   */
+  public getMorphAttribute(): THREE.InstancedBufferAttribute | null {
+    return this.instancedMesh?.geometry.getAttribute('instanceMorph') as THREE.InstancedBufferAttribute | null;
+  }
 
-      return maxLevel;
-    };
+  /**
+   * Mark a chunk whose neighborhood changed so its edge masks are recomputed on the next update.
+   * @internal Called by QuadtreeNode
+   */
+  public markEdgesDirty(node: QuadtreeNode): void {
+    this.dirtyEdgeNodes.add(node);
+  }
 
-    for (const [id, chunk] of entries) {
-      const half = chunk.size * 0.5;
-      const chunkLevel = chunk.level ?? 0;
-
-      const leftLevel = findMaxNeighborLevelOnEdge(
-        chunk.x - half - epsilon,
-        chunk.z - half,
-        chunk.x - half - epsilon,
-        chunk.z + half,
-        id
-      );
-      const rightLevel = findMaxNeighborLevelOnEdge(
-        chunk.x + half + epsilon,
-        chunk.z - half,
-        chunk.x + half + epsilon,
-        chunk.z + half,
-        id
-      );
-      const bottomLevel = findMaxNeighborLevelOnEdge(
-        chunk.x - half,
-        chunk.z - half - epsilon,
-        chunk.x + half,
-        chunk.z - half - epsilon,
-        id
-      );
-      const topLevel = findMaxNeighborLevelOnEdge(
-        chunk.x - half,
-        chunk.z + half + epsilon,
-        chunk.x + half,
-        chunk.z + half + epsilon,
-        id
-      );
+  /**
+   * Recompute edge skirt and stitch masks for chunks touched by a split or merge.
+   * Uses the quadtree neighbor links, so the cost scales with the number of changes
+   * rather than the number of active chunks.
+   */
+  private updateDirtyEdges(): void {
+    for (const node of this.dirtyEdgeNodes) {
+      const id = node.instanceId;
+      if (!node.isLeaf || id === -1) continue;
 
       const offset = id * 4;
-      this.instanceEdgeSkirtMasks[offset] = leftLevel !== null ? Math.max(0, leftLevel - chunkLevel) : 0;
-      this.instanceEdgeSkirtMasks[offset + 1] = rightLevel !== null ? Math.max(0, rightLevel - chunkLevel) : 0;
-      this.instanceEdgeSkirtMasks[offset + 2] = bottomLevel !== null ? Math.max(0, bottomLevel - chunkLevel) : 0;
-      this.instanceEdgeSkirtMasks[offset + 3] = topLevel !== null ? Math.max(0, topLevel - chunkLevel) : 0;
+      let stitchMask = 0;
+      for (let edge = 0; edge < 4; edge++) {
+        const delta = node.getEdgeLevelDelta(edge as QuadtreeEdge);
+        this.instanceEdgeSkirtMasks[offset + edge] = Math.max(0, delta);
+        if (delta < 0) stitchMask |= 1 << edge;
+      }
+      this.instanceStitchMasks[id] = stitchMask;
     }
+    this.dirtyEdgeNodes.clear();
   }
 
   private recreateMaterial(): void {
-    if (!this.isInitialized || !this.heightMap) return;
+    if (!this.isInitialized || !this.heightMap || this.config.headless) return;
 
     const context: TerrainMaterialContext = {
       heightMap: this.heightMap,
@@ -635,7 +918,8 @@ export class TerrainLOD extends THREE.Group {
       skirtWidth: this.config.skirtWidth,
       normalStrength: this.config.normalStrength,
       heightSmoothing: this.config.heightSmoothing,
-      heightSmoothingSpread: this.config.heightSmoothingSpread
+      heightSmoothingSpread: this.config.heightSmoothingSpread,
+      seamMode: this.config.seamMode
     };
 
     // Dispose old material
@@ -644,10 +928,13 @@ export class TerrainLOD extends THREE.Group {
     // Create new material
     this.currentMaterial = this.materialProvider.createMaterial(context);
 
-    // Update instanced mesh
+    // Update instanced meshes
     if (this.instancedMesh) {
       this.instancedMesh.material = this.currentMaterial;
     }
+    for (const mesh of this.stitchMeshes) {
+      mesh.material = this.currentMaterial;
+    }
   }
 
   /**
@@ -664,6 +951,8 @@ export class TerrainLOD extends THREE.Group {
   public setMaxHeight(height: number): void {
     this.config.maxHeight = height;
     this.materialProvider.setMaxHeight?.(height);
+    this.root?.refreshBounds();
+    this.dispatchEvent({ type: 'heightchanged', region: null });
   }
 
   /**
@@ -715,6 +1004,72 @@ export class TerrainLOD extends THREE.Group {
     this.config.lodHysteresis = Math.max(1, multiplier);
   }
 
+  /**
+   * Set the per-update split/merge budget. Omitted fields keep their current value;
+   * pass Infinity to remove a limit.
+   * @param budget - Maximum splits, merges and milliseconds spent on them per update()
+   */
+  public setLODBudget(budget: { splits?: number; merges?: number; timeMs?: number }): void {
+    if (budget.splits !== undefined) this.config.lodSplitBudget = Math.max(1, budget.splits);
+    if (budget.merges !== undefined) this.config.lodMergeBudget = Math.max(1, budget.merges);
+    if (budget.timeMs !== undefined) this.config.lodTimeBudget = Math.max(0, budget.timeMs);
+  }
+
+  /**
+   * Whether the last update() applied every split and merge the LOD metric asked for.
+   * False while a budget is spreading refinement over several frames.
+   */
+  public isLODSettled(): boolean {
+    return this.deferredLODChanges === 0;
+  }
+
+  /**
+   * Set the fraction of each LOD band used for geomorphing (0 disables morphing).
+   */
+  public setMorphRange(range: number): void {
+    this.config.morphRange = Math.min(1, Math.max(0, range));
+  }
+
+  /**
+   * Enable or disable the balanced (2:1 restricted) quadtree mode.
+   * When enabled, neighbor splits are forced so adjacent leaves never differ by more than one level.
+   */
+  public setBalancedQuadtree(enabled: boolean): void {
+    // Stitched seams cannot work without the balance
+    this.config.balancedQuadtree = enabled || this.config.seamMode === 'stitch';
+  }
+
+  /**
+   * Set the LOD selection metric.
+   * 'screenSpaceError' uses the camera projection and `viewportHeight`.
+   */
+  public setLODMode(mode: TerrainLODMode): void {
+    this.config.lodMode = mode;
+  }
+
+  /**
+   * Set the maximum projected geometric error in pixels ('screenSpaceError' mode).
+   * Lower values split chunks sooner (more detail).
+   */
+  public setLODPixelTolerance(pixels: number): void {
+    this.config.lodPixelTolerance = Math.max(0.1, pixels);
+  }
+
+  /**
+   * Set the viewport (canvas) height in pixels used for screen-space-error LOD.
+   * Call this when the renderer is resized, e.g. with `renderer.domElement.height`.
+   */
+  public setViewportHeight(height: number): void {
+    this.config.viewportHeight = Math.max(1, height);
+  }
+
+  /**
+   * Set the default filter for CPU height queries and newly generated collision data.
+   */
+  public setHeightQueryFilter(filter: TerrainHeightFilter): void {
+    this.config.heightQueryFilter = filter;
+  }
+
   /**
    * Get the current configuration.
    */
@@ -722,6 +1077,32 @@ export class TerrainLOD extends THREE.Group {
     return this.config;
   }
 
+  /**
+   * Get the CPU heightfield (normalized 0-1 samples), or null if no CPU height data is available.
+   * Treat it as read-only; use `setRawHeightData()` to change heights.
+   */
+  public getHeightfield(): Heightfield | null {
+    return this.heightfield;
+  }
+
+  /**
+   * Get the world-space height range of a quadtree cell.
+   * Uses the min/max height pyramid when CPU height data is available,
+   * otherwise falls back to the full 0..maxHeight range.
+   * @param level - Quadtree level (0 = root)
+   * @param x - Cell X index within the level
+   * @param z - Cell Z index within the level
+   */
+  public getNodeHeightRange(level: number, x: number, z: number): { min: number; max: number } {
+    if (!this.heightPyramid.isReady()) {
+      return { min: 0, max: this.config.maxHeight };
+    }
+    return {
+      min: this.heightPyramid.getMin(level, x, z) * this.config.maxHeight,
+      max: this.heightPyramid.getMax(level, x, z) * this.config.maxHeight
+    };
+  }
+
   /**
    * Get terrain statistics.
    */
@@ -730,17 +1111,19 @@ export class TerrainLOD extends THREE.Group {
     drawCalls: number;
     materials: number;
     geometries: number;
-    collision: { cached: number; dirty: number; dirtyRegions: number };
+    collision: { cached: number; dirty: number; dirtyRegions: number; streamed: number };
   } {
+    const stitchDrawCalls = this.stitchMeshes.filter(mesh => mesh.count > 0).length;
     return {
       instances: this.instancePool.getStats(),
-      drawCalls: 1,
+      drawCalls: this.stitchMeshes.length > 0 ? stitchDrawCalls : 1,
       materials: 1,
-      geometries: 1,
+      geometries: this.stitchMeshes.length > 0 ? this.stitchMeshes.length : 1,
       collision: {
         cached: this.collisionCache.size,
         dirty: this.dirtyCollisionKeys.size,
         dirtyRegions: this.dirtyRegions.length,
+        streamed: this.collisionStreamer.size,
       }
     };
   }
@@ -782,16 +1165,18 @@ export class TerrainLOD extends THREE.Group {
     // Invalidate collision cache
     if (invalidateCollision) {
       this.collisionCache.clear();
-      this.heightmapImageData = null;
+      this.heightfield = null;
       this.dirtyRegions = [];
       this.dirtyCollisionKeys.clear();
+      this.collisionStreamer.invalidate();
+      this._extractHeightfield();
     }
   }
 
   /**
    * Update the heightmap from an HTMLCanvasElement.
    * This is the primary method for real-time terrain painting.
-   * @param canvas - Canvas containing heightmap data (grayscale)
+   * @param canvas - Canvas containing heightmap data (grayscale); region updates read it with `getImageData`
    * @param invalidateCollision - Whether to clear collision cache (default: false for performance during painting)
    */
   public updateHeightMapFromCanvas(
@@ -829,53 +1214,59 @@ export class TerrainLOD extends THREE.Group {
     // Invalidate collision cache if requested
     if (dirtyRegion) {
       this.invalidateDirtyRegion(dirtyRegion);
-      this._copyCanvasRegionToHeightmapImageData(canvas, dirtyRegion);
+      this._copyCanvasRegionToHeightfield(canvas, dirtyRegion);
     } else if (invalidateCollision) {
       this.collisionCache.clear();
-      this.heightmapImageData = null;
+      this.heightfield = null;
       this.dirtyRegions = [];
       this.dirtyCollisionKeys.clear();
+      this.collisionStreamer.invalidate();
+      this._extractHeightfield();
     }
   }
 
   /**
-   * Set raw height data (CPU side) directly.
+   * Set raw height data (CPU side) directly, without precision loss.
    * Use this when heightmap is not a canvas/image (e.g. GPU render target).
-   * @param data - Float32Array of height values (0-1) or Uint8ClampedArray (0-255)
+   * @param data - Float32Array (0-1), Uint16Array (0-65535) or Uint8ClampedArray (0-255) heights;
+   *   single-channel or interleaved (e.g. RGBA), in which case the first channel is used
    * @param width - Data width
    * @param height - Data height
    * @param invalidateCollision - Whether to clear collision cache (default: true)
+   * @param dirtyRegion - Only this texel region changed; the rest of `data` is ignored
    */
   public setRawHeightData(
-    data: Float32Array | Uint8ClampedArray,
+    data: HeightfieldData,
     width: number,
     height: number,
     invalidateCollision = true,
     dirtyRegion?: DirtyRegionRect | null
   ): void {
-    // Convert to ImageData compatible format if needed
-    if (data instanceof Float32Array) {
-      // Convert float 0-1 to byte 0-255
-      const buffer = new Uint8ClampedArray(width * height * 4);
-      for (let i = 0; i < width * height; i++) {
-        const val = Math.floor(data[i] * 255);
-        const idx = i * 4;
-        buffer[idx] = val;     // R
-        buffer[idx + 1] = val; // G
-        buffer[idx + 2] = val; // B
-        buffer[idx + 3] = 255; // A
-      }
-      this.heightmapImageData = new ImageData(buffer, width, height);
-    } else {
-      this.heightmapImageData = new ImageData(data as any, width, height);
+    const resized = !this.heightfield || this.heightfield.width !== width || this.heightfield.height !== height;
+    if (resized) {
+      this.heightfield = new Heightfield(width, height);
     }
+    const heightfield = this.heightfield!;
 
-    if (dirtyRegion) {
+    if (dirtyRegion && !resized) {
+      const normalized = this.invalidateDirtyRegion(dirtyRegion);
+      if (normalized) {
+        heightfield.writeRegion(data, normalized);
+      }
+      this._refreshHeightBounds(normalized);
+    } else if (dirtyRegion) {
+      heightfield.setData(data);
       this.invalidateDirtyRegion(dirtyRegion);
-    } else if (invalidateCollision) {
-      this.collisionCache.clear();
-      this.dirtyRegions = [];
-      this.dirtyCollisionKeys.clear();
+      this._refreshHeightBounds();
+    } else {
+      heightfield.setData(data);
+      if (invalidateCollision) {
+        this.collisionCache.clear();
+        this.dirtyRegions = [];
+        this.dirtyCollisionKeys.clear();
+        this.collisionStreamer.invalidate();
+      }
+      this._refreshHeightBounds();
     }
   }
 
@@ -889,10 +1280,12 @@ export class TerrainLOD extends THREE.Group {
     }
 
     this.dirtyRegions.push(normalized);
-    for (const key of this._getOverlappingCollisionKeys(normalized)) {
+    const keys = this._getOverlappingCollisionKeys(normalized);
+    for (const key of keys) {
       this.dirtyCollisionKeys.add(key);
       this.collisionCache.delete(key);
     }
+    this.collisionStreamer.invalidate(keys);
 
     return normalized;
   }
@@ -916,8 +1309,7 @@ export class TerrainLOD extends THREE.Group {
    * @param invalidateCollision - Whether to clear collision cache (default: true)
    */
   public async loadHeightMap(url: string, invalidateCollision = true): Promise<void> {
-    const loader = new THREE.TextureLoader();
-    const texture = await loader.loadAsync(url);
+    const texture = await this._loadTexture(url);
     this.setHeightMap(texture, invalidateCollision);
     this.config.heightMapUrl = url;
   }
@@ -941,14 +1333,25 @@ export class TerrainLOD extends THREE.Group {
    * @param resolution - Canvas resolution (default: 1024)
    */
   public createEditableHeightMap(resolution = 1024): HTMLCanvasElement {
-    const canvas = document.createElement('canvas');
-    canvas.width = resolution;
-    canvas.height = resolution;
+    const canvas = this._requireCanvasAdapter('createEditableHeightMap').createCanvas(resolution, resolution);
     const ctx = canvas.getContext('2d')!;
 
     // Copy existing heightmap if available
-    if (this.heightMap?.image) {
-      ctx.drawImage(this.heightMap.image as HTMLImageElement | HTMLCanvasElement, 0, 0, resolution, resolution);
+    const image = this.heightMap?.image;
+    if (image && this.config.canvasAdapter!.isDrawable(image)) {
+      ctx.drawImage(image, 0, 0, resolution, resolution);
+    } else if (this.heightfield) {
+      // Data textures have nothing to draw; resample the CPU heights instead
+      const imageData = ctx.createImageData(resolution, resolution);
+      for (let y = 0; y < resolution; y++) {
+        for (let x = 0; x < resolution; x++) {
+          const value = Math.round(this.heightfield.sample((x + 0.5) / resolution, (y + 0.5) / resolution) * 255);
+          const offset = (y * resolution + x) * 4;
+          imageData.data[offset] = imageData.data[offset + 1] = imageData.data[offset + 2] = value;
+          imageData.data[offset + 3] = 255;
+        }
+      }
+      ctx.putImageData(imageData, 0, 0);
     } else {
       // Fill with black (zero height)
       ctx.fillStyle = '#000000';
@@ -986,6 +1389,7 @@ export class TerrainLOD extends THREE.Group {
     this.collisionCache.clear();
     this.dirtyRegions = [];
     this.dirtyCollisionKeys.clear();
+    this.collisionStreamer.invalidate();
   }
 
   /**
@@ -996,13 +1400,40 @@ export class TerrainLOD extends THREE.Group {
   }
 
   /**
-   * Set a callback for chunk LOD changes (for dynamic collision).
+   * Set a callback for streamed LOD0 collision cells (for dynamic collision).
+   * Cells streamed to a previous callback exit through it first.
    * @param callback - Callback object with onChunkEnterLOD0/onChunkExitLOD0 methods
    */
   public setCollisionCallback(callback: ChunkCollisionCallback | null): void {
+    this.collisionStreamer.clear();
     this.collisionCallback = callback;
   }
 
+  /**
+   * Set the points collision cells are streamed around (players, NPCs, projectiles).
+   * @param points - World positions, or null to follow the LOD viewpoints
+   */
+  public setCollisionFocus(points: THREE.Vector3Like | THREE.Vector3Like[] | null): void {
+    this.collisionFocus = points === null ? null : Array.isArray(points) ? points : [points];
+  }
+
+  /**
+   * Set the radius around collision focus points within which cells are streamed in.
+   * Cells exit beyond this radius times `lodHysteresis`.
+   */
+  public setCollisionStreamRadius(radius: number): void {
+    this.config.collisionStreamRadius = Math.max(0, radius);
+  }
+
+  /**
+   * Whether a LOD0 collision cell is currently streamed in.
+   * @param x - Chunk X index
+   * @param z - Chunk Z index
+   */
+  public isCollisionChunkStreamed(x: number, z: number): boolean {
+    return this.collisionStreamer.has(x, z);
+  }
+
   /**
    * Pre-compute collision data for all chunks and cache it.
    * Call this after terrain init before starting gameplay.
@@ -1013,8 +1444,8 @@ export class TerrainLOD extends THREE.Group {
       throw new Error('Heightmap not loaded yet');
     }
 
-    // Extract heightmap image data for sampling
-    await this._extractHeightmapImageData();
+    // Extract the CPU heightfield for sampling
+    this._extractHeightfield();
 
     // Calculate number of chunks at highest LOD
     const numChunks = Math.pow(2, this.config.levels - 1);
@@ -1056,10 +1487,12 @@ export class TerrainLOD extends THREE.Group {
    * Sample height at a world position.
    * @param worldX - World X coordinate
    * @param worldZ - World Z coordinate
+   * @param filter - Reconstruction filter (default: config `heightQueryFilter`)
    * @returns Height value, or 0 if heightmap not available
    */
-  public getHeightAt(worldX: number, worldZ: number): number {
-    if (!this.heightmapImageData) return 0;
+  public getHeightAt(worldX: number, worldZ: number, filter: TerrainHeightFilter = this.config.heightQueryFilter): number {
+    const heightfield = this.heightfield;
+    if (!heightfield) return 0;
 
     const halfWorld = this.config.worldSize / 2;
     const u = (worldX + halfWorld) / this.config.worldSize;
@@ -1067,27 +1500,481 @@ export class TerrainLOD extends THREE.Group {
 
     if (u < 0 || u > 1 || v < 0 || v > 1) return 0;
 
-    const imgX = Math.floor(u * (this.heightmapImageData.width - 1));
-    const imgY = Math.floor(v * (this.heightmapImageData.height - 1));
-    const idx = (imgY * this.heightmapImageData.width + imgX) * 4;
+    return heightfield.sample(u, v, filter) * this.config.maxHeight;
+  }
+
+  /**
+   * Sample heights for many points in one call, without allocations.
+   * Points are read from `positions` every `stride` floats: X first, then Z at offset 1
+   * for stride 2 (x, z) or at offset 2 for larger strides (x, y, z, ...).
+   * @param positions - Packed world positions
+   * @param out - One height per point
+   * @param stride - Floats per point in `positions` (default: 2)
+   * @param filter - Reconstruction filter (default: config `heightQueryFilter`)
+   * @returns Number of points sampled
+   */
+  public getHeightsAt(
+    positions: ArrayLike<number>,
+    out: Float32Array,
+    stride = 2,
+    filter: TerrainHeightFilter = this.config.heightQueryFilter
+  ): number {
+    const count = Math.min(Math.floor(positions.length / stride), out.length);
+    const heightfield = this.heightfield;
+    if (!heightfield) {
+      out.fill(0, 0, count);
+      return count;
+    }
+
+    const { worldSize, maxHeight } = this.config;
+    const invWorldSize = 1 / worldSize;
+    const zOffset = stride > 2 ? 2 : 1;
+
+    for (let i = 0, p = 0; i < count; i++, p += stride) {
+      const u = positions[p] * invWorldSize + 0.5;
+      const v = positions[p + zOffset] * invWorldSize + 0.5;
+      out[i] = u < 0 || u > 1 || v < 0 || v > 1 ? 0 : heightfield.sample(u, v, filter) * maxHeight;
+    }
+    return count;
+  }
+
+  /**
+   * Sample surface normals for many points in one call, without allocations.
+   * Same layout as `getHeightsAt()`; normals match `getNormalAt()`.
+   * @param positions - Packed world positions
+   * @param out - Three floats (x, y, z) per point
+   * @param stride - Floats per point in `positions` (default: 2)
+   * @returns Number of points sampled
+   */
+  public getNormalsAt(positions: ArrayLike<number>, out: Float32Array, stride = 2): number {
+    const count = Math.min(Math.floor(positions.length / stride), Math.floor(out.length / 3));
+    const zOffset = stride > 2 ? 2 : 1;
+    const normal = this.tempNormal;
+
+    for (let i = 0, p = 0, o = 0; i < count; i++, p += stride, o += 3) {
+      this.getNormalAt(positions[p], positions[p + zOffset], normal);
+      out[o] = normal.x;
+      out[o + 1] = normal.y;
+      out[o + 2] = normal.z;
+    }
+    return count;
+  }
+
+  /**
+   * Get the height of the surface as currently drawn at a world position.
+   *
+   * Unlike `getHeightAt()`, this follows the active chunk's vertex grid: the triangle under
+   * the point is rebuilt with the same geomorphing, stitching, skirts and `heightSmoothing`
+   * as the default material, so objects rest exactly on coarse distant chunks too.
+   * Custom materials that displace vertices differently are not reflected.
+   * @param worldX - World X coordinate
+   * @param worldZ - World Z coordinate
+   * @returns Rendered height, or `getHeightAt()` where no chunk is drawn
+   */
+  public getRenderedHeightAt(worldX: number, worldZ: number): number {
+    const halfWorld = this.config.worldSize / 2;
+    if (!this.root || !this.heightfield) return this.getHeightAt(worldX, worldZ);
+    if (Math.abs(worldX) > halfWorld || Math.abs(worldZ) > halfWorld) return 0;
+
+    const node = this._findLeafAt(worldX, worldZ);
+    if (!node || node.instanceId === -1) return this.getHeightAt(worldX, worldZ);
+
+    // Point in grid units of the chunk mesh
+    const resolution = this.config.resolution;
+    const gridX = ((worldX - node.x) / node.size + 0.5) * resolution;
+    const gridZ = ((worldZ - node.z) / node.size + 0.5) * resolution;
+    const cellX = Math.min(resolution - 1, Math.max(0, Math.floor(gridX)));
+    const cellZ = Math.min(resolution - 1, Math.max(0, Math.floor(gridZ)));
+
+    // Morphing and stitching move vertices by up to one cell, so check the neighboring cells too
+    for (let cz = Math.max(0, cellZ - 1); cz <= Math.min(resolution - 1, cellZ + 1); cz++) {
+      for (let cx = Math.max(0, cellX - 1); cx <= Math.min(resolution - 1, cellX + 1); cx++) {
+        // Same triangulation as THREE.PlaneGeometry: (a, b, d) and (b, c, d)
+        let height = this._getRenderedTriangleHeight(node, gridX, gridZ, cx, cz, cx, cz + 1, cx + 1, cz);
+        if (Number.isNaN(height)) {
+          height = this._getRenderedTriangleHeight(node, gridX, gridZ, cx, cz + 1, cx + 1, cz + 1, cx + 1, cz);
+        }
+        if (!Number.isNaN(height)) return height;
+      }
+    }
+
+    return this.getHeightAt(worldX, worldZ);
+  }
+
+  /**
+   * Intersect a ray with the terrain surface (THREE.Raycaster support).
+   * Marches the CPU heightfield, skipping empty space with the min/max height pyramid,
+   * so hits land on the displaced surface rather than the flat chunk meshes.
+   * The surface is the full-resolution triangle mesh through the texel centres; use
+   * `getRenderedHeightAt()` at the hit point to compare against the current LOD mesh.
+   */
+  public override raycast(raycaster: THREE.Raycaster, intersects: THREE.Intersection[]): void {
+    if (!this.heightfield) return;
+
+    const ray = this.tempRay.copy(raycaster.ray).applyMatrix4(this.tempInverseMatrix.copy(this.matrixWorld).invert());
+    ray.direction.normalize();
+
+    const hit = this.tempHit;
+    if (!this.heightfieldQueries.raycast(ray, Infinity, hit)) return;
+
+    const point = hit.point.clone().applyMatrix4(this.matrixWorld);
+    const distance = raycaster.ray.origin.distanceTo(point);
+    if (distance < raycaster.near || distance > raycaster.far) return;
+
+    const normal = hit.normal.clone().transformDirection(this.matrixWorld);
+    const node = this._findLeafAt(hit.point.x, hit.point.z);
+    const drawn = node !== null && node.instanceId !== -1;
+    const intersection: TerrainIntersection = {
+      distance,
+      point,
+      object: this,
+      face: { a: hit.a, b: hit.b, c: hit.c, normal: hit.normal.clone(), materialIndex: 0 },
+      faceIndex: null,
+      normal,
+      instanceId: drawn ? node.instanceId : undefined,
+      chunk: drawn ? this._createNodeChunkEvent(node) : null
+    };
+    intersects.push(intersection);
+  }
+
+  /**
+   * Finest quadtree node containing a local position, or null before the quadtree exists.
+   */
+  private _findLeafAt(x: number, z: number): QuadtreeNode | null {
+    let node = this.root;
+    if (!node) return null;
+    while (!node.isLeaf) {
+      node = node.children[(x >= node.x ? 1 : 0) | (z >= node.z ? 2 : 0)];
+    }
+    return node;
+  }
+
+  /**
+   * Height of a rendered chunk triangle at a point in grid units, or NaN if the point is outside it.
+   */
+  private _getRenderedTriangleHeight(
+    node: QuadtreeNode,
+    gridX: number,
+    gridZ: number,
+    ax: number, az: number,
+    bx: number, bz: number,
+    cx: number, cz: number
+  ): number {
+    const stitchMask = this.config.seamMode === 'stitch' ? this.instanceStitchMasks[node.instanceId] : 0;
+    const rowLength = this.config.resolution + 1;
+    const ia = this.getStitchedVertexIndex(stitchMask, ax, az);
+    const ib = this.getStitchedVertexIndex(stitchMask, bx, bz);
+    const ic = this.getStitchedVertexIndex(stitchMask, cx, cz);
+    if (ia === ib || ib === ic || ia === ic) return NaN;
+
+    const [a, b, c] = this.tempTriangle;
+    this._getRenderedVertex(node, ia % rowLength, Math.floor(ia / rowLength), a);
+    this._getRenderedVertex(node, ib % rowLength, Math.floor(ib / rowLength), b);
+    this._getRenderedVertex(node, ic % rowLength, Math.floor(ic / rowLength), c);
+
+    // Barycentric coordinates in the XZ plane
+    const det = (b.z - c.z) * (a.x - c.x) + (c.x - b.x) * (a.z - c.z);
+    if (Math.abs(det) < 1e-12) return NaN;
+    const wa = ((b.z - c.z) * (gridX - c.x) + (c.x - b.x) * (gridZ - c.z)) / det;
+    const wb = ((c.z - a.z) * (gridX - c.x) + (a.x - c.x) * (gridZ - c.z)) / det;
+    const wc = 1 - wa - wb;
+    const epsilon = -1e-6;
+    if (wa < epsilon || wb < epsilon || wc < epsilon) return NaN;
+
+    return wa * a.y + wb * b.y + wc * c.y;
+  }
+
+  /**
+   * Rendered position of a chunk grid vertex, mirroring the default material's vertex stage.
+   * Writes the morphed grid position to x/z (grid units) and the displaced height to y.
+   */
+  private _getRenderedVertex(node: QuadtreeNode, ix: number, iz: number, target: THREE.Vector3): THREE.Vector3 {
+    const heightfield = this.heightfield!;
+    const { resolution, worldSize, maxHeight, heightSmoothing, heightSmoothingSpread } = this.config;
+    const id = node.instanceId;
+
+    // Geomorph odd vertices toward the parent grid; edges stay pinned
+    let morph = this.instanceMorphFactors[id];
+    if (Math.min(ix, iz) === 0 || Math.max(ix, iz) === resolution) {
+      morph = 0;
+    }
+    const morphedX = ix - (ix % 2) * morph;
+    const morphedZ = iz - (iz % 2) * morph;
+
+    const u = (node.x + (morphedX / resolution - 0.5) * node.size) / worldSize + 0.5;
+    const v = (node.z + (morphedZ / resolution - 0.5) * node.size) / worldSize + 0.5;
+    let height = heightfield.sample(u, v);
+    if (heightSmoothing > 0) {
+      const du = heightSmoothingSpread / heightfield.width;
+      const dv = heightSmoothingSpread / heightfield.height;
+      const cardinals = heightfield.sample(u, v - dv) + heightfield.sample(u, v + dv)
+        + heightfield.sample(u + du, v) + heightfield.sample(u - du, v);
+      const diagonals = heightfield.sample(u + du, v - dv) + heightfield.sample(u - du, v - dv)
+        + heightfield.sample(u + du, v + dv) + heightfield.sample(u - du, v + dv);
+      const filtered = (height * 4 + cardinals * 2 + diagonals) / 16;
+      height += (filtered - height) * heightSmoothing;
+    }
+
+    // Skirts use the undisplaced grid position
+    const { skirtDepth, skirtWidth } = this.config;
+    const skirtInner = skirtWidth * 0.65;
+    const offset = id * 4;
+    const localX = ix / resolution;
+    const localZ = iz / resolution;
+    const skirtMask = Math.min(4, Math.max(0,
+      (1 - THREE.MathUtils.smoothstep(localX, skirtInner, skirtWidth)) * this.instanceEdgeSkirtMasks[offset]
+      + (1 - THREE.MathUtils.smoothstep(1 - localX, skirtInner, skirtWidth)) * this.instanceEdgeSkirtMasks[offset + 1]
+      + (1 - THREE.MathUtils.smoothstep(localZ, skirtInner, skirtWidth)) * this.instanceEdgeSkirtMasks[offset + 2]
+      + (1 - THREE.MathUtils.smoothstep(1 - localZ, skirtInner, skirtWidth)) * this.instanceEdgeSkirtMasks[offset + 3]
+    ));
+
+    return target.set(morphedX, height * maxHeight - skirtDepth * skirtMask, morphedZ);
+  }
+
+  /**
+   * Get the surface normal at a world position.
+   * Uses the same Sobel kernel and scaling (`maxHeight`, `normalStrength`, texel spacing)
+   * as the default material, so it matches the shaded surface.
+   * @param worldX - World X coordinate
+   * @param worldZ - World Z coordinate
+   * @param target - Vector to write to
+   * @returns Unit normal, or +Y if the heightmap is not available
+   */
+  public getNormalAt(worldX: number, worldZ: number, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const heightfield = this.heightfield;
+    if (!heightfield) return target.set(0, 1, 0);
+
+    const { worldSize, maxHeight, normalStrength } = this.config;
+    const u = (worldX + worldSize / 2) / worldSize;
+    const v = (worldZ + worldSize / 2) / worldSize;
+    const du = 1 / heightfield.width;
+    const dv = 1 / heightfield.height;
+
+    const hTL = heightfield.sample(u - du, v - dv);
+    const hTC = heightfield.sample(u, v - dv);
+    const hTR = heightfield.sample(u + du, v - dv);
+    const hCL = heightfield.sample(u - du, v);
+    const hCR = heightfield.sample(u + du, v);
+    const hBL = heightfield.sample(u - du, v + dv);
+    const hBC = heightfield.sample(u, v + dv);
+    const hBR = heightfield.sample(u + du, v + dv);
+
+    // Unnormalized Sobel, as in DefaultTerrainMaterial
+    const sobelX = (hTR + 2 * hCR + hBR) - (hTL + 2 * hCL + hBL);
+    const sobelZ = (hBL + 2 * hBC + hBR) - (hTL + 2 * hTC + hTR);
+    const dx = sobelX * maxHeight * normalStrength / (worldSize * du);
+    const dz = sobelZ * maxHeight * normalStrength / (worldSize * dv);
+
+    return target.set(-dx, 1, -dz).normalize();
+  }
+
+  /**
+   * Get the slope angle at a world position, derived from `getNormalAt()`.
+   * @returns Angle from horizontal in radians (0 = flat, PI/2 = vertical)
+   */
+  public getSlopeAt(worldX: number, worldZ: number): number {
+    const normal = this.getNormalAt(worldX, worldZ, this.tempNormal);
+    return Math.acos(Math.min(1, Math.max(-1, normal.y)));
+  }
+
+  /**
+   * Get the mean curvature (Laplacian of height) at a world position, over one texel.
+   * @returns Curvature in 1/world units: positive in valleys and hollows, negative on ridges and peaks
+   */
+  public getCurvatureAt(worldX: number, worldZ: number): number {
+    const heightfield = this.heightfield;
+    if (!heightfield) return 0;
+
+    const { worldSize, maxHeight } = this.config;
+    const u = (worldX + worldSize / 2) / worldSize;
+    const v = (worldZ + worldSize / 2) / worldSize;
+    const du = 1 / heightfield.width;
+    const dv = 1 / heightfield.height;
+    const stepX = worldSize * du;
+    const stepZ = worldSize * dv;
+
+    const hC = heightfield.sample(u, v) * maxHeight;
+    const hL = heightfield.sample(u - du, v) * maxHeight;
+    const hR = heightfield.sample(u + du, v) * maxHeight;
+    const hT = heightfield.sample(u, v - dv) * maxHeight;
+    const hB = heightfield.sample(u, v + dv) * maxHeight;
+
+    return (hL + hR - 2 * hC) / (stepX * stepX) + (hT + hB - 2 * hC) / (stepZ * stepZ);
+  }
+
+  // ============================================
+  // Shape Queries
+  // ============================================
+
+  /**
+   * Test whether a sphere overlaps the terrain surface (or lies below it).
+   * Runs on the CPU heightfield; no collision data is needed.
+   * Positions use the same space as `getHeightAt()`.
+   * @param center - Sphere center
+   * @param radius - Sphere radius
+   * @param target - Contact to write to
+   * @returns The deepest contact, or null if the sphere is clear of the terrain
+   */
+  public overlapSphere(
+    center: THREE.Vector3Like,
+    radius: number,
+    target: TerrainShapeContact = this._createShapeContact()
+  ): TerrainShapeContact | null {
+    return this.heightfieldQueries.overlapCapsule(center, center, radius, target) ? target : null;
+  }
+
+  /**
+   * Test whether a capsule overlaps the terrain surface (or lies below it).
+   * @param start - First end of the capsule's core segment
+   * @param end - Second end of the core segment
+   * @param radius - Capsule radius
+   * @param target - Contact to write to
+   * @returns The deepest contact, or null if the capsule is clear of the terrain
+   */
+  public overlapCapsule(
+    start: THREE.Vector3Like,
+    end: THREE.Vector3Like,
+    radius: number,
+    target: TerrainShapeContact = this._createShapeContact()
+  ): TerrainShapeContact | null {
+    return this.heightfieldQueries.overlapCapsule(start, end, radius, target) ? target : null;
+  }
+
+  /**
+   * Sweep a sphere along a displacement and find the first contact with the terrain.
+   * @param center - Sphere center at the start of the motion
+   * @param radius - Sphere radius
+   * @param motion - Displacement to sweep along
+   * @param target - Contact to write to
+   * @returns The first contact (`time` = fraction of `motion` before impact), or null if the path is clear
+   */
+  public sweepSphere(
+    center: THREE.Vector3Like,
+    radius: number,
+    motion: THREE.Vector3Like,
+    target: TerrainShapeContact = this._createShapeContact()
+  ): TerrainShapeContact | null {
+    return this.heightfieldQueries.sweepCapsule(center, center, radius, motion, target) ? target : null;
+  }
+
+  /**
+   * Sweep a capsule along a displacement and find the first contact with the terrain.
+   * @param start - First end of the capsule's core segment at the start of the motion
+   * @param end - Second end of the core segment
+   * @param radius - Capsule radius
+   * @param motion - Displacement to sweep along
+   * @param target - Contact to write to
+   * @returns The first contact (`time` = fraction of `motion` before impact), or null if the path is clear
+   */
+  public sweepCapsule(
+    start: THREE.Vector3Like,
+    end: THREE.Vector3Like,
+    radius: number,
+    motion: THREE.Vector3Like,
+    target: TerrainShapeContact = this._createShapeContact()
+  ): TerrainShapeContact | null {
+    return this.heightfieldQueries.sweepCapsule(start, end, radius, motion, target) ? target : null;
+  }
+
+  private _createShapeContact(): TerrainShapeContact {
+    return { point: new THREE.Vector3(), normal: new THREE.Vector3(), depth: 0, time: 0 };
+  }
+
+  // ============================================
+  // Visibility Queries
+  // ============================================
+
+  /**
+   * Test whether the terrain blocks the straight line between two points.
+   * Points may lie exactly on the surface. Positions use the same space as `getHeightAt()`.
+   * @param from - Observer position
+   * @param to - Target position
+   * @returns True if no terrain lies between the points (always true without height data)
+   */
+  public hasLineOfSight(from: THREE.Vector3Like, to: THREE.Vector3Like): boolean {
+    return this.heightfieldQueries.isSegmentClear(from, to);
+  }
+
+  /**
+   * Compute which terrain cells an observer can see within a radius.
+   * Each cell is visible if the line from `origin` to the surface at its centre
+   * (raised by `targetHeight`) is clear, so the cost is one pyramid-accelerated
+   * ray per cell inside the radius.
+   * @param origin - Observer eye position
+   * @param radius - View radius in world units
+   * @param resolution - Cells per side of the square grid covering the radius
+   * @param targetHeight - Height above the surface of the points being looked at
+   * @param target - Previous result to reuse (its buffers are kept if the resolution matches)
+   */
+  public computeViewshed(
+    origin: THREE.Vector3Like,
+    radius: number,
+    resolution: number,
+    targetHeight = 0,
+    target?: TerrainViewshed
+  ): TerrainViewshed {
+    resolution = Math.max(1, Math.floor(resolution));
+    let viewshed = target;
+    if (!viewshed || viewshed.resolution !== resolution) {
+      viewshed?.texture.dispose();
+      const mask = new Uint8Array(resolution * resolution);
+      const texture = new THREE.DataTexture(mask, resolution, resolution, THREE.RedFormat, THREE.UnsignedByteType);
+      texture.magFilter = THREE.NearestFilter;
+      texture.minFilter = THREE.NearestFilter;
+      viewshed = { mask, resolution, minX: 0, minZ: 0, cellSize: 0, texture };
+    }
+
+    const cellSize = (radius * 2) / resolution;
+    const minX = origin.x - radius;
+    const minZ = origin.z - radius;
+    viewshed.minX = minX;
+    viewshed.minZ = minZ;
+    viewshed.cellSize = cellSize;
+
+    const point = this.tempPosition;
+    const radiusSq = radius * radius;
+    for (let row = 0; row < resolution; row++) {
+      const z = minZ + (row + 0.5) * cellSize;
+      for (let col = 0; col < resolution; col++) {
+        const x = minX + (col + 0.5) * cellSize;
+        const dx = x - origin.x;
+        const dz = z - origin.z;
+        const height = this.heightfieldQueries.getSurfaceHeight(x, z);
+
+        let visible = false;
+        if (dx * dx + dz * dz <= radiusSq && !Number.isNaN(height)) {
+          visible = this.hasLineOfSight(origin, point.set(x, height + targetHeight, z));
+        }
+        viewshed.mask[row * resolution + col] = visible ? 255 : 0;
+      }
+    }
 
-    const heightNormalized = this.heightmapImageData.data[idx] / 255;
-    return heightNormalized * this.config.maxHeight;
+    viewshed.texture.needsUpdate = true;
+    return viewshed;
   }
 
   /**
-   * Emit chunk enter LOD0 event (called by QuadtreeNode).
+   * Emit chunk enter LOD0 event (called by CollisionStreamer).
+   * Generates and caches the chunk's collision data when it is not cached.
+   * @returns false when no CPU height data is available yet
    * @internal
    */
-  public _emitChunkEnterLOD0(x: number, z: number): void {
-    const data = this.getChunkCollisionData(x, z);
-    if (data && this.collisionCallback?.onChunkEnterLOD0) {
-      this.collisionCallback.onChunkEnterLOD0(data);
+  public _emitChunkEnterLOD0(x: number, z: number): boolean {
+    let data = this.getChunkCollisionData(x, z);
+    if (!data) {
+      if (!this.heightfield) return false;
+
+      const chunkSize = this.config.worldSize / Math.pow(2, this.config.levels - 1);
+      data = this._generateChunkCollisionData(x, z, chunkSize, this.config.worldSize / 2);
+      this.collisionCache.set(`${x}_${z}`, data);
     }
+
+    this.collisionCallback?.onChunkEnterLOD0?.(data);
+    return true;
   }
 
   /**
-   * Emit chunk exit LOD0 event (called by QuadtreeNode).
+   * Emit chunk exit LOD0 event (called by CollisionStreamer).
    * @internal
    */
   public _emitChunkExitLOD0(x: number, z: number): void {
@@ -1097,24 +1984,113 @@ export class TerrainLOD extends THREE.Group {
   }
 
   /**
-   * Extract heightmap image data for CPU sampling.
+   * Emit a chunk split or merge event (called by QuadtreeNode).
    * @internal
    */
-  private async _extractHeightmapImageData(): Promise<void> {
-    if (this.heightmapImageData) return;
+  public _emitChunkTopologyChange(type: 'chunksplit' | 'chunkmerged', node: QuadtreeNode): void {
+    this.dispatchEvent({ type, ...this._createNodeChunkEvent(node) });
+  }
+
+  private _createNodeChunkEvent(node: QuadtreeNode): TerrainChunkEvent {
+    return {
+      instanceId: node.instanceId,
+      level: node.level,
+      gridX: node.gridX,
+      gridZ: node.gridZ,
+      x: node.x,
+      z: node.z,
+      size: node.size,
+      bounds: node.bounds
+    };
+  }
+
+  private _createChunkEvent(id: number, chunk: ChunkInstanceData): TerrainChunkEvent {
+    const halfWorld = this.config.worldSize / 2;
+    const half = chunk.size / 2;
+    return {
+      instanceId: id,
+      level: chunk.level ?? 0,
+      gridX: Math.round((chunk.x + halfWorld) / chunk.size - 0.5),
+      gridZ: Math.round((chunk.z + halfWorld) / chunk.size - 0.5),
+      x: chunk.x,
+      z: chunk.z,
+      size: chunk.size,
+      bounds: chunk.bounds ?? new THREE.Box3(
+        new THREE.Vector3(chunk.x - half, 0, chunk.z - half),
+        new THREE.Vector3(chunk.x + half, this.config.maxHeight, chunk.z + half)
+      )
+    };
+  }
+
+  /**
+   * Extract the CPU heightfield from the heightmap texture and rebuild the height pyramid.
+   * Data textures are read at full precision; images and canvases through a 2D canvas.
+   * @internal
+   */
+  private _extractHeightfield(): void {
+    if (this.heightfield) return;
     if (!this.heightMap) return;
 
-    // Get image from texture
-    const image = this.heightMap.image as HTMLImageElement | HTMLCanvasElement;
-    if (!image) return;
+    const dataImage = this.heightMap.image as { data?: unknown; width?: number; height?: number } | null;
+    if (dataImage && this._isHeightfieldData(dataImage.data) && dataImage.width && dataImage.height) {
+      this.heightfield = new Heightfield(dataImage.width, dataImage.height);
+      this.heightfield.setData(dataImage.data, this.heightMap.type === THREE.HalfFloatType);
+      this._refreshHeightBounds();
+      return;
+    }
+
+    // Get image from texture (render target textures have nothing to draw)
+    const image = this.heightMap.image as { width?: number; height?: number } | null;
+    const adapter = this.config.canvasAdapter;
+    if (!adapter || !adapter.isDrawable(image)) {
+      this._refreshHeightBounds();
+      return;
+    }
 
     // Create canvas to extract image data
-    const canvas = document.createElement('canvas');
-    canvas.width = image.width || 1024;
-    canvas.height = image.height || 1024;
+    const canvas = adapter.createCanvas(image.width || 1024, image.height || 1024);
     const ctx = canvas.getContext('2d')!;
     ctx.drawImage(image, 0, 0);
-    this.heightmapImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    this.heightfield = Heightfield.fromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    this._refreshHeightBounds();
+  }
+
+  private _isHeightfieldData(data: unknown): data is HeightfieldData {
+    return data instanceof Float32Array
+      || data instanceof Uint16Array
+      || data instanceof Uint8Array
+      || data instanceof Uint8ClampedArray;
+  }
+
+  /**
+   * Load a texture through the canvas adapter.
+   */
+  private _loadTexture(url: string): Promise<THREE.Texture> {
+    return this._requireCanvasAdapter(`loading "${url}"`).loadTexture(url);
+  }
+
+  private _requireCanvasAdapter(operation: string): TerrainCanvasAdapter {
+    if (!this.config.canvasAdapter) {
+      throw new Error(
+        `TerrainLOD: ${operation} needs a canvas adapter; pass config.canvasAdapter or use setRawHeightData() without a DOM`
+      );
+    }
+    return this.config.canvasAdapter;
+  }
+
+  /**
+   * Rebuild (or partially update) the min/max height pyramid and refresh node bounds.
+   */
+  private _refreshHeightBounds(region?: DirtyRegionRect | null): void {
+    if (!this.heightfield) {
+      this.heightPyramid.clear();
+    } else if (region) {
+      this.heightPyramid.updateRegion(this.heightfield, region);
+    } else {
+      this.heightPyramid.build(this.heightfield);
+    }
+    this.root?.refreshBounds();
+    this.dispatchEvent({ type: 'heightchanged', region: region ?? null });
   }
 
   /**
@@ -1137,6 +2113,8 @@ export class TerrainLOD extends THREE.Group {
     const centerZ = chunkZ * chunkSize - halfWorld + chunkSize / 2;
 
     // Sample heights
+    let minHeight = Infinity;
+    let maxHeight = -Infinity;
     for (let row = 0; row < rows; row++) {
       for (let col = 0; col < cols; col++) {
         const localX = (col / resolution - 0.5) * chunkSize;
@@ -1147,6 +2125,8 @@ export class TerrainLOD extends THREE.Group {
 
         const height = this.getHeightAt(worldX, worldZ);
         heights[row * cols + col] = height;
+        if (height < minHeight) minHeight = height;
+        if (height > maxHeight) maxHeight = height;
       }
     }
 
@@ -1159,6 +2139,10 @@ export class TerrainLOD extends THREE.Group {
       cols,
       heights,
       maxHeight: this.config.maxHeight,
+      bounds: {
+        min: { x: centerX - chunkSize / 2, y: minHeight, z: centerZ - chunkSize / 2 },
+        max: { x: centerX + chunkSize / 2, y: maxHeight, z: centerZ + chunkSize / 2 }
+      },
       scale: { x: chunkSize, y: 1, z: chunkSize }
     };
   }
@@ -1167,22 +2151,34 @@ export class TerrainLOD extends THREE.Group {
    * Dispose the terrain and all resources.
    */
   public dispose(): void {
+    this.collisionStreamer.clear();
     if (this.root) {
       this.root.dispose();
       this.root = null;
     }
+    this.dirtyEdgeNodes.clear();
+    this.pendingSplits.clear();
+    this.pendingMerges.length = 0;
     if (this.instancedMesh) {
       this.remove(this.instancedMesh);
       this.instancedMesh.dispose();
       this.instancedMesh = null;
     }
+    for (const mesh of this.stitchMeshes) {
+      this.remove(mesh);
+      mesh.geometry.dispose();
+      mesh.dispose();
+    }
+    this.stitchMeshes = [];
     this.instancePool.clear();
     this.visibleInstanceIds.clear();
+    this.lodViewpointOverride = null;
     this.collisionCache.clear();
     this.dirtyCollisionKeys.clear();
     this.dirtyRegions = [];
     this.collisionCallback = null;
-    this.heightmapImageData = null;
+    this.heightfield = null;
+    this.heightPyramid.clear();
     this.sharedGeometry?.dispose();
     this.sharedGeometry = null;
     this.materialProvider.dispose?.();
@@ -1249,8 +2245,8 @@ export class TerrainLOD extends THREE.Group {
     return keys;
   }
 
-  private _copyCanvasRegionToHeightmapImageData(canvas: HTMLCanvasElement, rect: DirtyRegionRect): void {
-    if (!this.heightmapImageData) {
+  private _copyCanvasRegionToHeightfield(canvas: HTMLCanvasElement, rect: DirtyRegionRect): void {
+    if (!this.heightfield) {
       return;
     }
 
@@ -1265,21 +2261,15 @@ export class TerrainLOD extends THREE.Group {
     }
 
     const region = ctx.getImageData(normalized.x, normalized.y, normalized.width, normalized.height);
-    for (let row = 0; row < normalized.height; row++) {
-      const srcStart = row * normalized.width * 4;
-      const dstStart = ((normalized.y + row) * this.heightmapImageData.width + normalized.x) * 4;
-      this.heightmapImageData.data.set(
-        region.data.subarray(srcStart, srcStart + normalized.width * 4),
-        dstStart
-      );
-    }
+    this.heightfield.writeImageData(region, normalized.x, normalized.y);
+    this._refreshHeightBounds(normalized);
   }
 
   private _getHeightMapDimensions(): { width: number; height: number } | null {
-    if (this.heightmapImageData) {
+    if (this.heightfield) {
       return {
-        width: this.heightmapImageData.width,
-        height: this.heightmapImageData.height,
+        width: this.heightfield.width,
+        height: this.heightfield.height,
       };
     }
 
@@ -0,0 +1,442 @@
+import * as THREE from 'three';
+import { DirtyRegionRect, TerrainHeightChangeEvent } from './types';
+import { BinaryHeap } from './BinaryHeap';
+import type { TerrainLOD } from './TerrainLOD';
+
+/**
+ * Cost multiplier applied over a range of heights or slopes.
+ */
+export interface TerrainPathCostBand {
+  /** Start of the range (inclusive) */
+  min: number;
+  /** End of the range (exclusive) */
+  max: number;
+  /** Cost multiplier; Infinity makes the range impassable (e.g. water) */
+  cost: number;
+}
+
+/**
+ * Configuration for TerrainPathfinder.
+ */
+export interface TerrainPathfinderConfig {
+  /** Grid cells per side over the whole terrain (default: 256) */
+  resolution?: number;
+  /** Steepest walkable slope between neighboring cells, in radians (default: 35°) */
+  maxSlope?: number;
+  /** Multipliers by slope of each move, in radians (default: none) */
+  slopeBands?: TerrainPathCostBand[];
+  /** Multipliers by cell height in world units (default: none) */
+  heightBands?: TerrainPathCostBand[];
+  /**
+   * Per-cell multipliers, `resolution * resolution` values row-major along +Z.
+   * Infinity (or any non-positive value) blocks the cell. (default: none)
+   */
+  costMask?: Float32Array | null;
+  /** Allow diagonal moves (default: true) */
+  allowDiagonal?: boolean;
+}
+
+/**
+ * Resolved configuration with defaults applied.
+ */
+interface ResolvedPathfinderConfig {
+  resolution: number;
+  maxSlope: number;
+  slopeBands: TerrainPathCostBand[];
+  heightBands: TerrainPathCostBand[];
+  costMask: Float32Array | null;
+  allowDiagonal: boolean;
+}
+
+/**
+ * Open-list entry; `cost` is the estimated total cost when it was queued.
+ */
+interface SearchEntry {
+  index: number;
+  cost: number;
+}
+
+const NEIGHBOR_OFFSETS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [-1, 1], [1, -1], [-1, -1]
+];
+
+/**
+ * A* pathfinder over a grid sampled from the terrain heightfield.
+ *
+ * Moves cost their 3D length times the slope-band multipliers (slope of the move)
+ * and the height-band/cost-mask multiplier of the cell entered. Moves steeper than
+ * `maxSlope` are impassable, and diagonal moves may not cut blocked corners.
+ * Cell heights and costs are cached and refreshed only where the terrain reports
+ * height changes (`heightchanged` dirty regions).
+ *
+ * @example
+ * ```typescript
+ * const pathfinder = new TerrainPathfinder(terrain, {
+ *   maxSlope: THREE.MathUtils.degToRad(30),
+ *   heightBands: [{ min: -Infinity, max: 2, cost: Infinity }] // avoid water
+ * });
+ * const path = pathfinder.findPath(unit.position, target); // Vector3[] or null
+ * ```
+ */
+export class TerrainPathfinder {
+  private config: ResolvedPathfinderConfig;
+  private heights: Float32Array;
+  private cellCosts: Float32Array;
+  private needsFullRefresh: boolean = true;
+  private dirtyRegions: DirtyRegionRect[] = [];
+
+  // Lowest multiplier each cost source can apply, cached for the A* heuristic
+  private minSlopeCost: number = 1;
+  private minHeightCost: number = 1;
+  private minMaskCost: number = 1;
+
+  // Search state, reused between searches
+  private gScores: Float64Array;
+  private parents: Int32Array;
+  private visitStamps: Uint32Array;
+  private closedStamps: Uint32Array;
+  private searchStamp: number = 0;
+  private openList: BinaryHeap<SearchEntry> = new BinaryHeap((a, b) => a.cost - b.cost);
+
+  private readonly onHeightChanged = (event: TerrainHeightChangeEvent): void => {
+    if (event.region) {
+      this.invalidateRegion(event.region);
+    } else {
+      this.invalidate();
+    }
+  };
+
+  constructor(private terrain: TerrainLOD, config: TerrainPathfinderConfig = {}) {
+    this.config = {
+      resolution: Math.max(2, Math.floor(config.resolution ?? 256)),
+      maxSlope: config.maxSlope ?? THREE.MathUtils.degToRad(35),
+      slopeBands: config.slopeBands ?? [],
+      heightBands: config.heightBands ?? [],
+      costMask: null,
+      allowDiagonal: config.allowDiagonal ?? true
+    };
+
+    const cellCount = this.config.resolution * this.config.resolution;
+    this.heights = new Float32Array(cellCount);
+    this.cellCosts = new Float32Array(cellCount);
+    this.gScores = new Float64Array(cellCount);
+    this.parents = new Int32Array(cellCount);
+    this.visitStamps = new Uint32Array(cellCount);
+    this.closedStamps = new Uint32Array(cellCount);
+    this.minSlopeCost = this.getMinBandCost(this.config.slopeBands);
+    this.minHeightCost = this.getMinBandCost(this.config.heightBands);
+    if (config.costMask) this.setCostMask(config.costMask);
+
+    terrain.addEventListener('heightchanged', this.onHeightChanged);
+  }
+
+  /**
+   * Find the cheapest path between two positions.
+   * Positions use the same space as `TerrainLOD.getHeightAt()`; only X/Z are used.
+   * @param start - Start position
+   * @param goal - Goal position
+   * @returns Waypoints on the terrain surface (start, cell centres, goal), or null if the goal is unreachable
+   */
+  findPath(start: THREE.Vector3Like, goal: THREE.Vector3Like): THREE.Vector3[] | null {
+    this.refreshCosts();
+
+    const startIndex = this.getCellIndex(start.x, start.z);
+    const goalIndex = this.getCellIndex(goal.x, goal.z);
+    if (startIndex === -1 || goalIndex === -1) return null;
+    if (!Number.isFinite(this.cellCosts[goalIndex])) return null;
+
+    const { resolution, allowDiagonal } = this.config;
+    const cellSize = this.getCellSize();
+    const minFactor = this.getMinCostFactor();
+    const goalX = goalIndex % resolution;
+    const goalZ = Math.floor(goalIndex / resolution);
+
+    const stamp = this.nextSearchStamp();
+    const open = this.openList;
+    open.clear();
+    this.gScores[startIndex] = 0;
+    this.parents[startIndex] = -1;
+    this.visitStamps[startIndex] = stamp;
+    open.push({ index: startIndex, cost: 0 });
+
+    const neighborCount = allowDiagonal ? 8 : 4;
+    let found = false;
+    while (open.size > 0) {
+      const { index } = open.pop()!;
+      if (this.closedStamps[index] === stamp) continue;
+      this.closedStamps[index] = stamp;
+      if (index === goalIndex) {
+        found = true;
+        break;
+      }
+
+      const cellX = index % resolution;
+      const cellZ = Math.floor(index / resolution);
+      for (let n = 0; n < neighborCount; n++) {
+        const [offsetX, offsetZ] = NEIGHBOR_OFFSETS[n];
+        const nextX = cellX + offsetX;
+        const nextZ = cellZ + offsetZ;
+        if (nextX < 0 || nextX >= resolution || nextZ < 0 || nextZ >= resolution) continue;
+
+        const next = nextZ * resolution + nextX;
+        if (this.closedStamps[next] === stamp) continue;
+        if (offsetX !== 0 && offsetZ !== 0 && (
+          !Number.isFinite(this.cellCosts[cellZ * resolution + nextX])
+          || !Number.isFinite(this.cellCosts[nextZ * resolution + cellX])
+        )) continue;
+
+        const stepCost = this.getMoveCost(index, next, cellSize * Math.hypot(offsetX, offsetZ));
+        if (!Number.isFinite(stepCost)) continue;
+
+        const score = this.gScores[index] + stepCost;
+        if (this.visitStamps[next] === stamp && score >= this.gScores[next]) continue;
+
+        this.visitStamps[next] = stamp;
+        this.gScores[next] = score;
+        this.parents[next] = index;
+        const heuristic = this.getHeuristic(nextX, nextZ, goalX, goalZ, cellSize) * minFactor;
+        open.push({ index: next, cost: score + heuristic });
+      }
+    }
+    open.clear();
+    if (!found) return null;
+
+    // Walk back from the goal
+    const path: THREE.Vector3[] = [];
+    for (let index = goalIndex; index !== -1; index = this.parents[index]) {
+      path.push(this.getCellCenter(index, new THREE.Vector3()));
+    }
+    path.reverse();
+    path[0].set(start.x, this.terrain.getHeightAt(start.x, start.z), start.z);
+    if (path.length > 1) {
+      path[path.length - 1].set(goal.x, this.terrain.getHeightAt(goal.x, goal.z), goal.z);
+    } else {
+      path.push(new THREE.Vector3(goal.x, this.terrain.getHeightAt(goal.x, goal.z), goal.z));
+    }
+    return path;
+  }
+
+  /**
+   * Whether the cell under a position can be entered at all (ignores slopes to neighbors).
+   */
+  isWalkable(x: number, z: number): boolean {
+    this.refreshCosts();
+    const index = this.getCellIndex(x, z);
+    return index !== -1 && Number.isFinite(this.cellCosts[index]);
+  }
+
+  /**
+   * Mark the cells covering a heightmap texel region for re-sampling before the next search.
+   * Called automatically for the terrain's `heightchanged` events.
+   */
+  invalidateRegion(rect: DirtyRegionRect): void {
+    if (!this.needsFullRefresh) {
+      this.dirtyRegions.push({ ...rect });
+    }
+  }
+
+  /**
+   * Re-sample every cell before the next search.
+   */
+  invalidate(): void {
+    this.needsFullRefresh = true;
+    this.dirtyRegions = [];
+  }
+
+  setMaxSlope(radians: number): void {
+    this.config.maxSlope = radians;
+  }
+
+  setSlopeBands(bands: TerrainPathCostBand[]): void {
+    this.config.slopeBands = bands;
+    this.minSlopeCost = this.getMinBandCost(bands);
+  }
+
+  setHeightBands(bands: TerrainPathCostBand[]): void {
+    this.config.heightBands = bands;
+    this.minHeightCost = this.getMinBandCost(bands);
+    this.invalidate();
+  }
+
+  /**
+   * Set per-cell cost multipliers (`resolution * resolution` values, row-major along +Z).
+   * Call again after editing the mask in place.
+   */
+  setCostMask(mask: Float32Array | null): void {
+    const cellCount = this.config.resolution * this.config.resolution;
+    if (mask && mask.length < cellCount) {
+      throw new Error(`TerrainPathfinder: cost mask needs ${cellCount} values, got ${mask.length}`);
+    }
+    this.config.costMask = mask;
+
+    let minMask = 1;
+    if (mask) {
+      for (let i = 0; i < cellCount; i++) {
+        if (mask[i] > 0) minMask = Math.min(minMask, mask[i]);
+      }
+    }
+    this.minMaskCost = minMask;
+    this.invalidate();
+  }
+
+  setAllowDiagonal(enabled: boolean): void {
+    this.config.allowDiagonal = enabled;
+  }
+
+  /**
+   * Stop listening to terrain height changes.
+   */
+  dispose(): void {
+    this.terrain.removeEventListener('heightchanged', this.onHeightChanged);
+    this.openList.clear();
+  }
+
+  // ============================================
+  // Grid
+  // ============================================
+
+  private getCellSize(): number {
+    return this.terrain.getConfig().worldSize / this.config.resolution;
+  }
+
+  /**
+   * Cell index under a position, or -1 outside the terrain.
+   */
+  private getCellIndex(x: number, z: number): number {
+    const { resolution } = this.config;
+    const halfWorld = this.terrain.getConfig().worldSize / 2;
+    const cellSize = this.getCellSize();
+    const cellX = Math.floor((x + halfWorld) / cellSize);
+    const cellZ = Math.floor((z + halfWorld) / cellSize);
+    if (x > halfWorld || z > halfWorld || cellX < 0 || cellZ < 0) return -1;
+    return Math.min(resolution - 1, cellZ) * resolution + Math.min(resolution - 1, cellX);
+  }
+
+  private getCellCenter(index: number, target: THREE.Vector3): THREE.Vector3 {
+    const { resolution } = this.config;
+    const halfWorld = this.terrain.getConfig().worldSize / 2;
+    const cellSize = this.getCellSize();
+    return target.set(
+      ((index % resolution) + 0.5) * cellSize - halfWorld,
+      this.heights[index],
+      (Math.floor(index / resolution) + 0.5) * cellSize - halfWorld
+    );
+  }
+
+  /**
+   * Re-sample heights and cell costs where the terrain changed.
+   */
+  private refreshCosts(): void {
+    const { resolution } = this.config;
+    if (this.needsFullRefresh) {
+      this.needsFullRefresh = false;
+      this.dirtyRegions = [];
+      this.refreshCells(0, 0, resolution - 1, resolution - 1);
+      return;
+    }
+    if (this.dirtyRegions.length === 0) return;
+
+    const dimensions = this.terrain.getHeightfield();
+    for (const rect of this.dirtyRegions) {
+      if (!dimensions) break;
+      // One cell of margin covers bilinear sampling across the region border
+      const scaleX = resolution / dimensions.width;
+      const scaleZ = resolution / dimensions.height;
+      this.refreshCells(
+        Math.max(0, Math.floor(rect.x * scaleX) - 1),
+        Math.max(0, Math.floor(rect.y * scaleZ) - 1),
+        Math.min(resolution - 1, Math.ceil((rect.x + rect.width) * scaleX)),
+        Math.min(resolution - 1, Math.ceil((rect.y + rect.height) * scaleZ))
+      );
+    }
+    this.dirtyRegions = [];
+  }
+
+  private refreshCells(startX: number, startZ: number, endX: number, endZ: number): void {
+    const { resolution, heightBands, costMask } = this.config;
+    const halfWorld = this.terrain.getConfig().worldSize / 2;
+    const cellSize = this.getCellSize();
+
+    for (let cellZ = startZ; cellZ <= endZ; cellZ++) {
+      const z = (cellZ + 0.5) * cellSize - halfWorld;
+      for (let cellX = startX; cellX <= endX; cellX++) {
+        const index = cellZ * resolution + cellX;
+        const height = this.terrain.getHeightAt((cellX + 0.5) * cellSize - halfWorld, z);
+        this.heights[index] = height;
+
+        let cost = this.getBandCost(heightBands, height);
+        if (costMask) {
+          const multiplier = costMask[index];
+          cost = multiplier > 0 ? cost * multiplier : Infinity;
+        }
+        this.cellCosts[index] = cost;
+      }
+    }
+  }
+
+  // ============================================
+  // Costs
+  // ============================================
+
+  private getMoveCost(from: number, to: number, distance: number): number {
+    const cellCost = this.cellCosts[to];
+    if (!Number.isFinite(cellCost)) return Infinity;
+
+    const rise = this.heights[to] - this.heights[from];
+    const slope = Math.atan2(Math.abs(rise), distance);
+    if (slope > this.config.maxSlope) return Infinity;
+
+    return Math.hypot(distance, rise) * cellCost * this.getBandCost(this.config.slopeBands, slope);
+  }
+
+  /**
+   * Product of the multipliers of every band containing the value.
+   */
+  private getBandCost(bands: TerrainPathCostBand[], value: number): number {
+    let cost = 1;
+    for (const band of bands) {
+      if (value >= band.min && value < band.max) cost *= band.cost;
+    }
+    return cost;
+  }
+
+  /**
+   * Octile distance between cells (straight-line when diagonals are off).
+   */
+  private getHeuristic(fromX: number, fromZ: number, toX: number, toZ: number, cellSize: number): number {
+    const dx = Math.abs(toX - fromX);
+    const dz = Math.abs(toZ - fromZ);
+    if (!this.config.allowDiagonal) return (dx + dz) * cellSize;
+    return (Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz)) * cellSize;
+  }
+
+  /**
+   * Lowest possible cost per unit of distance, keeping the heuristic admissible.
+   */
+  private getMinCostFactor(): number {
+    return Math.max(0, this.minSlopeCost * this.minHeightCost * this.minMaskCost);
+  }
+
+  /**
+   * Lowest band cost any value can get (at most 1, the cost outside all bands).
+   * Band products only change where a band starts or ends, so those are the only values to check.
+   */
+  private getMinBandCost(bands: TerrainPathCostBand[]): number {
+    let cost = 1;
+    for (const band of bands) {
+      cost = Math.min(cost, this.getBandCost(bands, band.min), this.getBandCost(bands, band.max));
+    }
+    return cost;
+  }
+
+  private nextSearchStamp(): number {
+    this.searchStamp++;
+    if (this.searchStamp === 0xffffffff) {
+      this.visitStamps.fill(0);
+      this.closedStamps.fill(0);
+      this.searchStamp = 1;
+    }
+    return this.searchStamp;
+  }
+}
@@ -1,19 +1,49 @@
 export {
   TerrainConfig,
   ResolvedTerrainConfig,
+  TerrainLODMode,
+  TerrainViewpoint,
+  TerrainSeamMode,
+  TerrainHeightFilter,
+  TerrainCanvasAdapter,
   TerrainMaterialProvider,
   TerrainMaterialContext,
   ChunkInstanceData,
+  TerrainChunkEvent,
+  TerrainLODEventMap,
+  TerrainHeightChangeEvent,
+  TerrainIntersection,
+  TerrainShapeContact,
+  TerrainViewshed,
   ChunkCollisionData,
   ChunkCollisionCallback,
   CollisionResolution,
   DirtyRegionRect
 } from './types';
 export { InstancePool } from './InstancePool';
-export { QuadtreeNode, setCurrentCamera, getCurrentCamera } from './QuadtreeNode';
+export { DOMCanvasAdapter } from './DOMCanvasAdapter';
+export { Heightfield, HeightfieldData } from './Heightfield';
+export { HeightfieldQueries, HeightfieldHit } from './HeightfieldQueries';
+export { QuadtreeNode, QuadtreeEdge, setCurrentCamera, getCurrentCamera } from './QuadtreeNode';
 export { TerrainLOD } from './TerrainLOD';
+export {
+  TerrainPathfinder,
+  TerrainPathfinderConfig,
+  TerrainPathCostBand
+} from './TerrainPathfinder';
 export {
   HeightmapCompositor,
   BrushData,
+  HeightmapBlendMode,
+  HeightmapCompositorBackend,
+  HeightmapCompositorRenderer,
   HeightmapCompositorConfig
 } from './HeightmapCompositor';
+export {
+  CPUHeightmapCompositor,
+  CPUHeightmapCompositorConfig
+} from './CPUHeightmapCompositor';
+export {
+  TerrainCompositorBinding,
+  TerrainCompositorBindingConfig
+} from './TerrainCompositorBinding';
@@ -1,9 +1,39 @@
 import * as THREE from 'three';
+import type { ProceduralTerrainConfig } from '../utils/ProceduralTerrain';
 
 // ============================================
 // Configuration Types
 // ============================================
 
+/**
+ * Metric used by the quadtree to decide when a node splits.
+ * - `distance`: distance from the viewpoint to the chunk bounds versus `size * lodDistanceRatio`
+ * - `screenSpaceError`: projected geometric error in pixels versus `lodPixelTolerance`
+ */
+export type TerrainLODMode = 'distance' | 'screenSpaceError';
+
+/**
+ * Strategy used to hide cracks between chunks of different LOD levels.
+ * - `skirts`: vertical skirts on edges facing finer neighbors
+ * - `stitch`: index-buffer variants that collapse edge vertices facing coarser
+ *   neighbors (forces the balanced quadtree and disables skirts)
+ */
+export type TerrainSeamMode = 'skirts' | 'stitch';
+
+/**
+ * Filter used by CPU height queries. Samples follow the GPU texel-centre convention.
+ * - `nearest`: closest texel
+ * - `bilinear`: matches hardware linear filtering of the heightmap texture
+ * - `bicubic`: Catmull-Rom, smooth first derivatives for camera and object placement
+ */
+export type TerrainHeightFilter = 'nearest' | 'bilinear' | 'bicubic';
+
+/**
+ * A point of view driving LOD selection.
+ * Cameras use the configured LOD metric; plain world positions always use the distance metric.
+ */
+export type TerrainViewpoint = THREE.Camera | THREE.Vector3Like;
+
 /**
  * Configuration options for TerrainLOD
  */
@@ -22,6 +52,24 @@ export interface TerrainConfig {
   lodDistanceRatio?: number;
   /** LOD merge hysteresis multiplier (>1 reduces split/merge thrashing) */
   lodHysteresis?: number;
+  /** Maximum node splits applied per update() call (default: Infinity) */
+  lodSplitBudget?: number;
+  /** Maximum node merges applied per update() call (default: Infinity) */
+  lodMergeBudget?: number;
+  /** Time budget in milliseconds for splits and merges per update() call (default: Infinity) */
+  lodTimeBudget?: number;
+  /** LOD selection metric (default: 'distance') */
+  lodMode?: TerrainLODMode;
+  /** Maximum projected geometric error in pixels before a node splits ('screenSpaceError' mode) */
+  lodPixelTolerance?: number;
+  /** Viewport (canvas) height in pixels used to project geometric error ('screenSpaceError' mode) */
+  viewportHeight?: number;
+  /** Fraction of each LOD band used to geomorph toward the parent grid (0 = no morphing) */
+  morphRange?: number;
+  /** Restrict the quadtree so adjacent leaves differ by at most one level */
+  balancedQuadtree?: boolean;
+  /** Crack-hiding strategy between LOD levels (default: 'skirts'). 'stitch' rounds an odd resolution up to even */
+  seamMode?: TerrainSeamMode;
   /** Base mesh resolution (vertices per side) */
   resolution?: number;
   /** Enable wireframe rendering */
@@ -40,6 +88,39 @@ export interface TerrainConfig {
   heightSmoothing?: number;
   /** Filter spread in texels used for displacement smoothing */
   heightSmoothingSpread?: number;
+  /** Radius around collision focus points within which LOD0 collision cells are streamed in */
+  collisionStreamRadius?: number;
+  /** Default filter for CPU height queries and collision data (default: 'bilinear') */
+  heightQueryFilter?: TerrainHeightFilter;
+  /** Generator settings for the fallback heightmap used without `heightMapUrl` (seed, octaves, ...) */
+  proceduralTerrain?: ProceduralTerrainConfig;
+  /**
+   * Skip rendering resources (geometry, material, meshes, diffuse texture). The quadtree LOD,
+   * chunk events, height queries and collision keep working, e.g. on a game server (default: false)
+   */
+  headless?: boolean;
+  /**
+   * Canvas and texture loading for URLs, image heightmaps and editable canvases
+   * (default: DOM-based when `document` exists, otherwise null)
+   */
+  canvasAdapter?: TerrainCanvasAdapter | null;
+}
+
+/**
+ * Canvas access used by TerrainLOD outside its DOM-free core: loading textures from
+ * URLs, reading heights from drawable images and creating editable heightmap canvases.
+ * Inject one (e.g. backed by node-canvas or OffscreenCanvas) where `document` is missing.
+ */
+export interface TerrainCanvasAdapter {
+  /**
+   * Create a canvas with a 2D context. TerrainLOD reads and writes pixels through that
+   * context, so it must support `drawImage`, `createImageData`, `getImageData` and `putImageData`.
+   */
+  createCanvas(width: number, height: number): HTMLCanvasElement;
+  /** Load a texture from a URL */
+  loadTexture(url: string): Promise<THREE.Texture>;
+  /** Whether an image can be drawn onto this adapter's canvases */
+  isDrawable(image: unknown): image is CanvasImageSource;
 }
 
 /**
@@ -94,6 +175,8 @@ export interface TerrainMaterialContext {
   heightSmoothing: number;
   /** Filter spread in texels used for displacement smoothing */
   heightSmoothingSpread: number;
+  /** Crack-hiding strategy; with 'stitch', chunk edge vertices must not be geomorphed */
+  seamMode: TerrainSeamMode;
 }
 
 /**
@@ -122,7 +205,8 @@ export interface TerrainMaterialProvider {
    * 
    * IMPORTANT: The material must handle vertex displacement using the heightmap.
    * The terrain provides per-instance UV transforms via the 'instanceUVTransform' 
-   * attribute (vec3: scale, offsetX, offsetY).
+   * attribute (vec3: scale, offsetX, offsetY) and a geomorph factor via the
+   * 'instanceMorph' attribute (float: 0 = own grid, 1 = odd vertices on the parent grid).
    * 
    * @param context - Contains textures and configuration needed for the material
    * @returns A Three.js material configured for the terrain
@@ -192,6 +276,95 @@ export interface ChunkInstanceData {
   uvOffsetX: number;
   uvOffsetY: number;
   level?: number;
+  /** World-space bounds (shared with the owning quadtree node) */
+  bounds?: THREE.Box3;
+}
+
+/**
+ * Payload of the chunk lifecycle events dispatched by TerrainLOD.
+ */
+export interface TerrainChunkEvent {
+  /** Instance slot of the chunk, or -1 when the node is not drawn (e.g. right after a merge) */
+  instanceId: number;
+  /** Quadtree level (0 = lowest detail) */
+  level: number;
+  /** Grid index of the chunk within its level */
+  gridX: number;
+  gridZ: number;
+  /** World-space center and size of the chunk */
+  x: number;
+  z: number;
+  size: number;
+  /** World-space bounds; live for quadtree chunks, so copy it to keep a snapshot */
+  bounds: THREE.Box3;
+}
+
+/**
+ * Payload of TerrainLOD's `heightchanged` event.
+ */
+export interface TerrainHeightChangeEvent {
+  /** Changed heightmap texel region, or null when the whole heightfield (or max height) changed */
+  region: DirtyRegionRect | null;
+}
+
+/**
+ * Events dispatched by TerrainLOD, in addition to the regular Object3D events.
+ * - `chunkadded` / `chunkremoved`: a chunk instance started or stopped being drawn
+ * - `chunksplit`: a chunk is about to be replaced by its four children
+ * - `chunkmerged`: a subtree collapsed back into this chunk
+ * - `chunkvisible` / `chunkhidden`: a chunk entered or left the culling frustum
+ * - `heightchanged`: CPU heights changed (full or dirty-region updates, max height)
+ */
+export interface TerrainLODEventMap extends THREE.Object3DEventMap {
+  chunkadded: TerrainChunkEvent;
+  chunkremoved: TerrainChunkEvent;
+  chunksplit: TerrainChunkEvent;
+  chunkmerged: TerrainChunkEvent;
+  chunkvisible: TerrainChunkEvent;
+  chunkhidden: TerrainChunkEvent;
+  heightchanged: TerrainHeightChangeEvent;
+}
+
+/**
+ * Contact between a sphere or capsule and the terrain surface.
+ */
+export interface TerrainShapeContact {
+  /** Contact point on the surface */
+  point: THREE.Vector3;
+  /** Unit normal at the contact, pointing out of the terrain toward the shape */
+  normal: THREE.Vector3;
+  /** Penetration depth for overlaps; 0 for sweep hits */
+  depth: number;
+  /** Time of impact as a fraction (0-1) of the sweep motion; 0 for overlaps */
+  time: number;
+}
+
+/**
+ * Visibility grid computed by `TerrainLOD.computeViewshed()`.
+ * Cells are row-major along +Z, matching `texture` with rows along its V axis.
+ */
+export interface TerrainViewshed {
+  /** Per-cell visibility: 255 = visible, 0 = hidden or outside the radius/terrain */
+  mask: Uint8Array;
+  /** Cells per side */
+  resolution: number;
+  /** World-space minimum corner of the grid (X/Z) */
+  minX: number;
+  minZ: number;
+  /** World-space size of one cell */
+  cellSize: number;
+  /** Red-channel texture sharing the mask data, e.g. for a fog-of-war overlay */
+  texture: THREE.DataTexture;
+}
+
+/**
+ * Raycaster intersection with the terrain surface.
+ * `face.a/b/c` are heightfield texel indices (row * width + column) of the hit triangle,
+ * and `instanceId` is the drawn chunk's instance slot.
+ */
+export interface TerrainIntersection extends THREE.Intersection {
+  /** Chunk drawn at the hit point, or null if none is drawn there yet */
+  chunk: TerrainChunkEvent | null;
 }
 
 // ============================================
@@ -224,17 +397,24 @@ export interface ChunkCollisionData {
   heights: Float32Array;
   /** Maximum height value for this terrain */
   maxHeight: number;
+  /** World-space bounds of the sampled heights */
+  bounds: {
+    min: { x: number; y: number; z: number };
+    max: { x: number; y: number; z: number };
+  };
   /** Scale vector for physics shape (sizeX, 1, sizeZ) */
   scale: { x: number; y: number; z: number };
 }
 
 /**
- * Callback interface for chunk LOD changes.
- * Implement this to manage dynamic collision based on camera distance.
+ * Callback interface for streamed LOD0 collision cells.
+ * Implement this to manage dynamic collision around the collision focus points.
+ * When a cell's heights change while it is streamed in, it exits and re-enters
+ * with fresh data on the next update.
  */
 export interface ChunkCollisionCallback {
-  /** Called when a chunk enters LOD0 (highest detail, closest to camera) */
+  /** Called when a cell comes within `collisionStreamRadius` of a focus point */
   onChunkEnterLOD0?(chunk: ChunkCollisionData): void;
-  /** Called when a chunk exits LOD0 (moved away from camera) */
+  /** Called when a cell leaves the stream radius, is invalidated, or streaming stops */
   onChunkExitLOD0?(chunkIndex: { x: number; z: number }): void;
 }
@@ -3,15 +3,51 @@ export {
   TerrainLOD,
   TerrainConfig,
   ResolvedTerrainConfig,
+  TerrainLODMode,
+  TerrainViewpoint,
+  TerrainSeamMode,
+  TerrainHeightFilter,
+  TerrainCanvasAdapter,
   TerrainMaterialProvider,
   TerrainMaterialContext,
   ChunkInstanceData,
+  TerrainChunkEvent,
+  TerrainLODEventMap,
+  TerrainHeightChangeEvent,
+  TerrainIntersection,
+  TerrainShapeContact,
+  TerrainViewshed,
   InstancePool,
+  DOMCanvasAdapter,
+  Heightfield,
+  HeightfieldData,
+  HeightfieldQueries,
+  HeightfieldHit,
   QuadtreeNode,
+  QuadtreeEdge,
+  TerrainPathfinder,
+  TerrainPathfinderConfig,
+  TerrainPathCostBand,
   HeightmapCompositor,
   BrushData,
-  HeightmapCompositorConfig
+  HeightmapBlendMode,
+  HeightmapCompositorBackend,
+  HeightmapCompositorRenderer,
+  HeightmapCompositorConfig,
+  CPUHeightmapCompositor,
+  CPUHeightmapCompositorConfig,
+  TerrainCompositorBinding,
+  TerrainCompositorBindingConfig
 } from './core';
 
 // Material exports
 export { DefaultTerrainMaterial, TerrainMaterialNodes } from './materials';
+
+// Utility exports
+export {
+  SimplexNoise,
+  createSeededRandom,
+  ProceduralTerrain,
+  ProceduralTerrainConfig,
+  ProceduralTerrainType
+} from './utils';
@@ -1,10 +1,11 @@
 import * as THREE from 'three';
 import {
   texture, uv, uniform, vec3, vec2, vec4, mix, mul, add,
-  positionLocal, float, step, normalize, Fn, attribute, smoothstep, pow, abs, clamp
+  positionLocal, float, step, normalize, Fn, attribute, smoothstep, pow, abs, clamp, varying
 } from 'three/tsl';
 import { MeshPhysicalNodeMaterial, TextureNode } from 'three/webgpu';
 import { TerrainMaterialProvider, TerrainMaterialContext } from '../core/types';
+import { createMorphedUV } from './TerrainMaterialNodes';
 
 type Node = any;
 type UniformNode<T = any> = any;
@@ -36,6 +37,7 @@ export interface TerrainMaterialNodes {
  * 
  * Creates a heightmap-displaced material with:
  * - Vertex displacement from heightmap
+ * - CDLOD-style geomorphing toward the parent grid
  * - **Slope-based texturing** (rock on cliffs)
  * - **Height-based layering** (grass → rock → snow)
  * - Diffuse texture tiling
@@ -108,12 +110,17 @@ export class DefaultTerrainMaterial implements TerrainMaterialProvider {
     // Per-instance UV transform using instanceIndex
     const instUVTransform: any = attribute('instanceUVTransform', 'vec3');
     const instEdgeSkirt: any = attribute('instanceEdgeSkirt', 'vec4');
+    const instMorph: any = attribute('instanceMorph', 'float');
     const instUVScale = instUVTransform.x;
     const instUVOffset = vec2(instUVTransform.y, instUVTransform.z);
 
     // Build UV coordinates (flip Y)
     const uvNode = vec2(uv().x, add(float(1.0), mul(uv().y, float(-1.0))));
-    const scaledUV = uvNode.mul(vec2(instUVScale, instUVScale));
+    // Geomorph odd grid vertices toward the coarser parent grid; computed per vertex
+    const morphedUV: any = varying(
+      createMorphedUV(uvNode, instMorph, context.resolution)
+    );
+    const scaledUV = morphedUV.mul(vec2(instUVScale, instUVScale));
     const globalUV = scaledUV.add(instUVOffset);
 
     // Sample and optionally smooth heightmap for displacement
@@ -143,7 +150,8 @@ export class DefaultTerrainMaterial implements TerrainMaterialProvider {
     const skirtMask = clamp(leftSkirt.add(rightSkirt).add(bottomSkirt).add(topSkirt), 0.0, 4.0);
     const skirtOffset = vec3(0, this.skirtDepthNode!.mul(skirtMask).negate(), 0);
 
-    material.positionNode = positionLocal.add(displacement).add(skirtOffset);
+    const morphedPosition = vec3(morphedUV.x.sub(0.5), positionLocal.y, morphedUV.y.sub(0.5));
+    material.positionNode = morphedPosition.add(displacement).add(skirtOffset);
 
     // Calculate normal for slope detection (do this first)
     const normalNode = this.createTerrainNormalSobel(
@@ -193,7 +201,7 @@ export class DefaultTerrainMaterial implements TerrainMaterialProvider {
     let finalColor: Node;
     if (this.diffuseTextureNode) {
       // Tiled diffuse texture for detail
-      const tiledUV = uvNode.mul(vec2(8.0, 8.0)); // Higher tiling for detailed grass
+      const tiledUV = morphedUV.mul(vec2(8.0, 8.0)); // Higher tiling for detailed grass
       const diffuseColor = texture(this.diffuseTextureNode as TextureNode, tiledUV);
       // Blend diffuse with terrain color (modulate)
       finalColor = terrainColor.mul(diffuseColor.rgb.mul(1.2)); // Brighten slightly
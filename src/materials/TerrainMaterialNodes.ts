@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import {
-    texture, uv, uniform, vec3, vec2, add, mul, float, positionLocal, normalize, attribute, Fn, smoothstep, clamp, mix
+    texture, uv, uniform, vec3, vec2, add, mul, float, positionLocal, normalize, attribute, Fn, smoothstep, clamp, mix, varying, step
 } from 'three/tsl';
 import { TextureNode } from 'three/webgpu';
 import { TerrainMaterialContext } from '../core/types';
@@ -8,6 +8,25 @@ import { TerrainMaterialContext } from '../core/types';
 type Node = any;
 type UniformNode<T = any> = any;
 
+/**
+ * Snap odd grid vertices toward the even (parent) grid by the morph factor.
+ * Rounding the grid index keeps even vertices exactly in place.
+ * Edge vertices are pinned so neighbouring chunks keep sharing their border vertices.
+ * Shared by every terrain material so morphing and seams stay consistent.
+ * @internal
+ */
+export function createMorphedUV(uvNode: Node, morphNode: Node, resolution: number): Node {
+    return Fn(() => {
+        const gridIndex = uvNode.mul(float(resolution)).round().toVar();
+        const oddMask = gridIndex.mod(2.0).toVar();
+        const lowest = gridIndex.x.min(gridIndex.y);
+        const highest = gridIndex.x.max(gridIndex.y);
+        const interior = step(0.5, lowest).mul(step(highest, float(resolution - 0.5)));
+        const morph = morphNode.mul(interior);
+        return gridIndex.sub(oddMask.mul(morph)).div(float(resolution));
+    })();
+}
+
 /**
  * Utility functions for creating terrain material nodes.
  *
@@ -44,6 +63,7 @@ export class TerrainMaterialNodes {
     private heightSmoothingNode: UniformNode<number>;
     private heightSmoothingSpreadNode: UniformNode<number>;
     private globalUVNode: Node;
+    private morphedUVNode: Node;
     private heightMapWidth: number;
     private heightMapHeight: number;
 
@@ -72,7 +92,14 @@ export class TerrainMaterialNodes {
 
         // Build UV coordinates (flip Y to match heightmap orientation)
         const uvNode = vec2(uv().x, add(float(1.0), mul(uv().y, float(-1.0))));
-        const scaledUV = uvNode.mul(vec2(instUVScale, instUVScale));
+
+        // Geomorph odd grid vertices toward the coarser parent grid; computed per vertex
+        const instMorph: any = attribute('instanceMorph', 'float');
+        this.morphedUVNode = varying(
+            createMorphedUV(uvNode, instMorph, context.resolution)
+        );
+
+        const scaledUV = this.morphedUVNode.mul(vec2(instUVScale, instUVScale));
         this.globalUVNode = scaledUV.add(instUVOffset);
     }
 
@@ -94,9 +121,18 @@ export class TerrainMaterialNodes {
         return this.globalUVNode;
     }
 
+    /**
+     * Get the geomorphed local chunk UV (0-1).
+     * Odd grid vertices are blended toward the parent grid by the 'instanceMorph' attribute.
+     */
+    getMorphedUV(): Node {
+        return this.morphedUVNode;
+    }
+
     /**
      * Get the vertex displacement node.
      * Apply this to material.positionNode for proper terrain height.
+     * Includes geomorphing toward the parent grid and edge skirts.
      */
     getDisplacementNode(): Node {
         const height = this.getHeightNode();
@@ -117,7 +153,8 @@ export class TerrainMaterialNodes {
         const skirtMask = clamp(leftSkirt.add(rightSkirt).add(bottomSkirt).add(topSkirt), 0.0, 4.0);
         const skirtOffset = vec3(0, this.skirtDepthNode.mul(skirtMask).negate(), 0);
 
-        return positionLocal.add(displacement).add(skirtOffset);
+        const morphedPosition = vec3(this.morphedUVNode.x.sub(0.5), positionLocal.y, this.morphedUVNode.y.sub(0.5));
+        return morphedPosition.add(displacement).add(skirtOffset);
     }
 
     /**
@@ -0,0 +1,253 @@
+import * as THREE from 'three';
+import { SimplexNoise } from './SimplexNoise';
+
+/**
+ * How octaves are combined.
+ * - `fbm`: fractional Brownian motion, rolling hills
+ * - `ridged`: ridged multifractal, sharp mountain ridges with smooth valleys
+ * - `billow`: absolute-value octaves, rounded puffy hills
+ */
+export type ProceduralTerrainType = 'fbm' | 'ridged' | 'billow';
+
+/**
+ * Configuration for ProceduralTerrain.
+ */
+export interface ProceduralTerrainConfig {
+  /** Seed; equal seeds give identical terrain (default: 1337) */
+  seed?: number;
+  /** Heights per side of generated grids (default: 1024) */
+  size?: number;
+  /** Octave combination (default: 'fbm') */
+  type?: ProceduralTerrainType;
+  /** Base frequency in noise periods across the terrain (default: 3) */
+  frequency?: number;
+  /** Number of noise octaves (default: 6) */
+  octaves?: number;
+  /** Frequency multiplier per octave (default: 2) */
+  lacunarity?: number;
+  /** Amplitude multiplier per octave (default: 0.5) */
+  gain?: number;
+  /** Ridged multifractal offset; higher values give broader ridges (default: 1) */
+  ridgeOffset?: number;
+  /** Domain warp displacement in base noise periods (0 = no warping, default: 0) */
+  warpStrength?: number;
+  /** Domain warp frequency in noise periods across the terrain (default: same as `frequency`) */
+  warpFrequency?: number;
+  /** Rescale generated grids to the full 0-1 range (default: true) */
+  normalize?: boolean;
+}
+
+/**
+ * Resolved configuration with defaults applied.
+ */
+interface ResolvedProceduralTerrainConfig {
+  seed: number;
+  size: number;
+  type: ProceduralTerrainType;
+  frequency: number;
+  octaves: number;
+  lacunarity: number;
+  gain: number;
+  ridgeOffset: number;
+  warpStrength: number;
+  warpFrequency: number;
+  normalize: boolean;
+}
+
+/**
+ * Seeded procedural heightmap generator (fBm, ridged multifractal, billow, domain warping).
+ *
+ * Output heights are normalized (0-1) and row-major with rows along +Z, matching
+ * `TerrainLOD.setRawHeightData()`. Generation is deterministic for a given config.
+ *
+ * @example
+ * ```typescript
+ * const generator = new ProceduralTerrain({ seed: 42, type: 'ridged', warpStrength: 0.3 });
+ * const heights = generator.generate();
+ * terrain.setRawHeightData(heights, generator.size, generator.size);
+ * terrain.setHeightMap(generator.createTexture(heights));
+ * ```
+ */
+export class ProceduralTerrain {
+  private config: ResolvedProceduralTerrainConfig;
+  private noise: SimplexNoise;
+  private warpNoiseX: SimplexNoise;
+  private warpNoiseY: SimplexNoise;
+
+  constructor(config: ProceduralTerrainConfig = {}) {
+    const frequency = config.frequency ?? 3;
+    this.config = {
+      seed: config.seed ?? 1337,
+      size: Math.max(2, Math.floor(config.size ?? 1024)),
+      type: config.type ?? 'fbm',
+      frequency,
+      octaves: Math.max(1, Math.floor(config.octaves ?? 6)),
+      lacunarity: config.lacunarity ?? 2,
+      gain: config.gain ?? 0.5,
+      ridgeOffset: config.ridgeOffset ?? 1,
+      warpStrength: config.warpStrength ?? 0,
+      warpFrequency: config.warpFrequency ?? frequency,
+      normalize: config.normalize ?? true
+    };
+
+    // Independent streams so warping does not correlate with the heights
+    this.noise = new SimplexNoise(this.config.seed);
+    this.warpNoiseX = new SimplexNoise(this.config.seed + 1);
+    this.warpNoiseY = new SimplexNoise(this.config.seed + 2);
+  }
+
+  /**
+   * Heights per side of generated grids.
+   */
+  get size(): number {
+    return this.config.size;
+  }
+
+  /**
+   * Sample the height at a normalized terrain position.
+   * Unlike `generate()`, single samples are not rescaled by `normalize`.
+   * @param u - Position across the terrain along X (0-1)
+   * @param v - Position across the terrain along Z (0-1)
+   * @returns Height in roughly 0-1
+   */
+  sample(u: number, v: number): number {
+    const { frequency, warpStrength, warpFrequency } = this.config;
+    let x = u * frequency;
+    let y = v * frequency;
+
+    if (warpStrength !== 0) {
+      const wx = u * warpFrequency;
+      const wy = v * warpFrequency;
+      x += this.fbm(this.warpNoiseX, wx, wy) * warpStrength * frequency;
+      y += this.fbm(this.warpNoiseY, wx, wy) * warpStrength * frequency;
+    }
+
+    switch (this.config.type) {
+      case 'ridged':
+        return this.ridged(x, y);
+      case 'billow':
+        return this.billow(x, y) * 0.5 + 0.5;
+      default:
+        return this.fbm(this.noise, x, y) * 0.5 + 0.5;
+    }
+  }
+
+  /**
+   * Generate a `size * size` grid of heights, sampled at texel centres.
+   * @param target - Array to fill (allocated if omitted)
+   */
+  generate(target?: Float32Array): Float32Array {
+    const size = this.config.size;
+    const heights = target ?? new Float32Array(size * size);
+    if (heights.length < size * size) {
+      throw new Error(`ProceduralTerrain: target needs ${size * size} values, got ${heights.length}`);
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (let row = 0; row < size; row++) {
+      const v = (row + 0.5) / size;
+      for (let col = 0; col < size; col++) {
+        const value = this.sample((col + 0.5) / size, v);
+        heights[row * size + col] = value;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+
+    if (this.config.normalize && max > min) {
+      const scale = 1 / (max - min);
+      for (let i = 0; i < size * size; i++) heights[i] = (heights[i] - min) * scale;
+    } else {
+      for (let i = 0; i < size * size; i++) heights[i] = Math.min(1, Math.max(0, heights[i]));
+    }
+    return heights;
+  }
+
+  /**
+   * Create a single-channel heightmap texture for `TerrainLOD.setHeightMap()`.
+   * @param heights - Heights from `generate()` (generated if omitted)
+   * @param type - FloatType for full precision, HalfFloatType for wider filtering support
+   */
+  createTexture(
+    heights: Float32Array = this.generate(),
+    type: typeof THREE.FloatType | typeof THREE.HalfFloatType = THREE.FloatType
+  ): THREE.DataTexture {
+    const size = this.config.size;
+    let data: Float32Array | Uint16Array = heights;
+    if (type === THREE.HalfFloatType) {
+      data = new Uint16Array(size * size);
+      for (let i = 0; i < size * size; i++) data[i] = THREE.DataUtils.toHalfFloat(heights[i]);
+    }
+
+    const texture = new THREE.DataTexture(data, size, size, THREE.RedFormat, type);
+    texture.wrapS = texture.wrapT = THREE.ClampToEdgeWrapping;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearFilter;
+    texture.needsUpdate = true;
+    return texture;
+  }
+
+  // ============================================
+  // Fractals
+  // ============================================
+
+  /**
+   * Fractional Brownian motion, normalized to roughly [-1, 1].
+   */
+  private fbm(noise: SimplexNoise, x: number, y: number): number {
+    const { octaves, lacunarity, gain } = this.config;
+    let sum = 0;
+    let amplitude = 1;
+    let amplitudeSum = 0;
+    for (let octave = 0; octave < octaves; octave++) {
+      sum += noise.noise2D(x, y) * amplitude;
+      amplitudeSum += amplitude;
+      amplitude *= gain;
+      x *= lacunarity;
+      y *= lacunarity;
+    }
+    return sum / amplitudeSum;
+  }
+
+  /**
+   * Billowed octaves (`2|n| - 1`), normalized to roughly [-1, 1].
+   */
+  private billow(x: number, y: number): number {
+    const { octaves, lacunarity, gain } = this.config;
+    let sum = 0;
+    let amplitude = 1;
+    let amplitudeSum = 0;
+    for (let octave = 0; octave < octaves; octave++) {
+      sum += (Math.abs(this.noise.noise2D(x, y)) * 2 - 1) * amplitude;
+      amplitudeSum += amplitude;
+      amplitude *= gain;
+      x *= lacunarity;
+      y *= lacunarity;
+    }
+    return sum / amplitudeSum;
+  }
+
+  /**
+   * Ridged multifractal (Musgrave): each octave is weighted by the previous ridge,
+   * so detail collects on the ridges and valleys stay smooth. Normalized to roughly 0-1.
+   */
+  private ridged(x: number, y: number): number {
+    const { octaves, lacunarity, gain, ridgeOffset } = this.config;
+    let sum = 0;
+    let amplitude = 1;
+    let amplitudeSum = 0;
+    let weight = 1;
+    for (let octave = 0; octave < octaves; octave++) {
+      let signal = ridgeOffset - Math.abs(this.noise.noise2D(x, y));
+      signal *= signal * weight;
+      weight = Math.min(1, Math.max(0, signal * 2));
+      sum += signal * amplitude;
+      amplitudeSum += amplitude;
+      amplitude *= gain;
+      x *= lacunarity;
+      y *= lacunarity;
+    }
+    return sum / (amplitudeSum * ridgeOffset * ridgeOffset);
+  }
+}
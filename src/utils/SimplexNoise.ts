@@ -0,0 +1,102 @@
+/**
+ * Create a deterministic pseudo-random generator (mulberry32).
+ * @param seed - Any integer; equal seeds give equal sequences
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+/** 12 gradient directions, as in the reference simplex implementation */
+const GRADIENTS = new Float32Array([
+  1, 1, -1, 1, 1, -1, -1, -1,
+  1, 0, -1, 0, 1, 0, -1, 0,
+  0, 1, 0, -1, 0, 1, 0, -1
+]);
+
+/**
+ * Seeded 2D simplex noise.
+ * The permutation table is shuffled from the seed, so results are identical across
+ * runs and platforms for the same seed.
+ */
+export class SimplexNoise {
+  private perm: Uint8Array = new Uint8Array(512);
+  private permMod12: Uint8Array = new Uint8Array(512);
+
+  constructor(public readonly seed: number = 0) {
+    const random = createSeededRandom(seed);
+    const table = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) table[i] = i;
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const swap = table[i];
+      table[i] = table[j];
+      table[j] = swap;
+    }
+    for (let i = 0; i < 512; i++) {
+      this.perm[i] = table[i & 255];
+      this.permMod12[i] = this.perm[i] % 12;
+    }
+  }
+
+  /**
+   * Sample the noise at a point.
+   * @returns Value in roughly [-1, 1]
+   */
+  noise2D(x: number, y: number): number {
+    const perm = this.perm;
+    const permMod12 = this.permMod12;
+
+    // Skew to the simplex grid and find the containing cell
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+
+    // Second corner: lower or upper triangle of the cell
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const g0 = permMod12[ii + perm[jj]] * 2;
+    const g1 = permMod12[ii + i1 + perm[jj + j1]] * 2;
+    const g2 = permMod12[ii + 1 + perm[jj + 1]] * 2;
+
+    let n = 0;
+    let t0 = 0.5 - x0 * x0 - y0 * y0;
+    if (t0 > 0) {
+      t0 *= t0;
+      n += t0 * t0 * (GRADIENTS[g0] * x0 + GRADIENTS[g0 + 1] * y0);
+    }
+    let t1 = 0.5 - x1 * x1 - y1 * y1;
+    if (t1 > 0) {
+      t1 *= t1;
+      n += t1 * t1 * (GRADIENTS[g1] * x1 + GRADIENTS[g1 + 1] * y1);
+    }
+    let t2 = 0.5 - x2 * x2 - y2 * y2;
+    if (t2 > 0) {
+      t2 *= t2;
+      n += t2 * t2 * (GRADIENTS[g2] * x2 + GRADIENTS[g2 + 1] * y2);
+    }
+
+    // Scale the corner contributions to roughly [-1, 1]
+    return 70 * n;
+  }
+}
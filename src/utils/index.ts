@@ -1,2 +1,6 @@
-// Empty utils barrel - reserved for future utilities
-export {};
+export { SimplexNoise, createSeededRandom } from './SimplexNoise';
+export {
+  ProceduralTerrain,
+  ProceduralTerrainConfig,
+  ProceduralTerrainType
+} from './ProceduralTerrain';